@@ -1,17 +1,40 @@
 import { useState, useMemo } from 'react';
-import { BrowserRouter, Routes, Route } from 'react-router-dom';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { BrowserRouter, Routes, Route, useLocation, useMatch, useNavigate } from 'react-router-dom';
+import { QueryClient } from '@tanstack/react-query';
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { SocketProvider } from './contexts/SocketContext';
+import { GroomingQueueProvider } from './contexts/GroomingQueueContext';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { LoginPage } from './pages/LoginPage';
-import { useTickets } from './hooks/useTickets';
-import { useSocket } from './hooks/useSocket';
-import type { Ticket } from './types/ticket';
+import { NoAccessPage } from './pages/NoAccessPage';
+import { ProjectOverviewPage } from './pages/ProjectOverviewPage';
+import { AnalyticsPage } from './pages/AnalyticsPage';
+import { SprintPlanningPage } from './pages/SprintPlanningPage';
+import { registerTicketMutations, useTicket, useTickets } from './hooks/useTickets';
+import { TicketAccessError } from './api/tickets';
+import { useBoardColumns } from './hooks/useWorkflows';
+import { useCurrentSprints } from './hooks/useSprints';
+import { useProjectAccessFilter, useVisibleProjects } from './hooks/useProjects';
+import { useTicketFilters } from './hooks/useTicketFilters';
+import { hasActiveFilters, matchesFilters } from './lib/ticketFilters';
+import { analyticsPath, projectOverviewPath, projectPath, sprintsPath, ticketPath } from './lib/routes';
+import { CACHE_MAX_AGE, queryPersister } from './lib/queryPersistence';
+import type { Ticket, TicketStatus } from './types/ticket';
 import { Header } from './components/Header';
 import { KanbanBoard } from './components/KanbanBoard';
 import { TicketModal } from './components/TicketModal';
 import { ProjectFilter } from './components/ProjectFilter';
 import { ProjectMembersModal } from './components/ProjectMembersModal';
+import { CreateTicketModal } from './components/CreateTicketModal';
+import { WorkflowSettingsModal } from './components/WorkflowSettingsModal';
+import { GroomingQueueModal } from './components/GroomingQueueModal';
+import { SwimlanePicker } from './components/SwimlanePicker';
+import { SprintToggle } from './components/SprintToggle';
+import { FilterBar } from './components/FilterBar';
+import { QueryBar } from './components/QueryBar';
+import type { QueryContext } from './lib/ticketQuery';
+import type { SwimlaneField } from './lib/swimlanes';
 import { Loader2, AlertCircle, FolderX } from 'lucide-react';
 
 const queryClient = new QueryClient({
@@ -19,14 +42,21 @@ const queryClient = new QueryClient({
     queries: {
       retry: 3,
       staleTime: 30000,
+      gcTime: CACHE_MAX_AGE,
     },
   },
 });
 
+registerTicketMutations(queryClient);
+
 function Dashboard() {
-  const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null);
-  const [projectFilter, setProjectFilter] = useState<string | null>(null);
   const [showMembersModal, setShowMembersModal] = useState(false);
+  const [showWorkflowModal, setShowWorkflowModal] = useState(false);
+  const [showGroomingQueue, setShowGroomingQueue] = useState(false);
+  const [swimlane, setSwimlane] = useState<SwimlaneField | null>(null);
+  const [currentSprintOnly, setCurrentSprintOnly] = useState(false);
+  // Status to pre-select in the create dialog; null when the dialog is closed
+  const [createStatus, setCreateStatus] = useState<TicketStatus | null>(null);
 
   // Get auth context for project access
   const {
@@ -34,39 +64,110 @@ function Dashboard() {
     projectsLoading,
     role,
     hasProjectAccess,
-    accessibleProjectNames,
+    canEdit,
+    canEditProject,
+    user,
   } = useAuth();
 
-  // Initialize WebSocket connection
-  useSocket();
+  const { filters, setFilters, clearFilters } = useTicketFilters();
+  const projectFilter = filters.project;
 
-  const { data: tickets, isLoading, error } = useTickets();
+  // The API filters by project, status and priority; the rest is applied below
+  const { data: tickets, isLoading, error } = useTickets({
+    project: projectFilter ?? undefined,
+    status: filters.status ?? undefined,
+    priority: filters.priority ?? undefined,
+  });
+  // Every ticket in the selected project(s), for WIP limits and the total count.
+  // Without a status or priority filter this is the same query as above.
+  const { data: projectTickets } = useTickets({ project: projectFilter ?? undefined });
+  const filterAccessible = useProjectAccessFilter();
 
   // Filter tickets by accessible projects
-  const accessibleTickets = useMemo(() => {
-    if (!tickets) return [];
-    // Admins see all tickets
-    if (role === 'admin') return tickets;
-    // Filter to only accessible projects
-    return tickets.filter((t) => hasProjectAccess(t.project || 'Uncategorized'));
-  }, [tickets, role, hasProjectAccess]);
-
-  // Further filter by selected project
-  const filteredTickets = useMemo(() => {
-    if (!projectFilter) return accessibleTickets;
-    return accessibleTickets.filter((t) => t.project === projectFilter);
-  }, [accessibleTickets, projectFilter]);
-
-  // Get unique projects from accessible tickets
-  const availableProjects = useMemo(() => {
-    if (role === 'admin') {
-      // Admins see all projects from tickets
-      const unique = [...new Set(accessibleTickets.map((t) => t.project || 'Uncategorized'))];
-      return unique.sort();
+  const accessibleTickets = useMemo(() => filterAccessible(tickets ?? []), [tickets, filterAccessible]);
+
+  const scopeTickets = useMemo(
+    () => (projectTickets ? filterAccessible(projectTickets) : accessibleTickets),
+    [projectTickets, accessibleTickets, filterAccessible]
+  );
+
+  // Further filter by the filter bar
+  const filteredTickets = useMemo(
+    () => accessibleTickets.filter((t) => matchesFilters(t, filters)),
+    [accessibleTickets, filters]
+  );
+
+  const assignees = useMemo(
+    () => [...new Set(accessibleTickets.flatMap((t) => (t.assignee ? [t.assignee] : [])))].sort(),
+    [accessibleTickets]
+  );
+
+  // The open ticket comes from /tickets/:id or /projects/:name/tickets/:id
+  const navigate = useNavigate();
+  const location = useLocation();
+  const ticketMatch = useMatch('/tickets/:ticketId');
+  const projectTicketMatch = useMatch('/projects/:projectName/tickets/:ticketId');
+  const selectedTicketId = (ticketMatch ?? projectTicketMatch)?.params.ticketId ?? null;
+
+  // Read the open ticket from the list so edits show up while the modal is open,
+  // and only fetch it on its own when no loaded list has it
+  const listedTicket = useMemo(
+    () => [...scopeTickets, ...accessibleTickets].find((t) => t.id === selectedTicketId),
+    [scopeTickets, accessibleTickets, selectedTicketId]
+  );
+  const {
+    data: fetchedTicket,
+    error: ticketError,
+    isFetching: ticketFetching,
+  } = useTicket(listedTicket ? null : selectedTicketId);
+  const selectedTicket = listedTicket ?? (selectedTicketId ? fetchedTicket : undefined) ?? null;
+
+  const openTicket = (ticket: Ticket) => {
+    navigate(
+      { pathname: ticketPath(ticket.id, projectFilter && ticket.project), search: location.search },
+      { state: { fromBoard: true } }
+    );
+  };
+
+  // Go back when the modal was opened from the board, so browser history
+  // stays in step; a pasted link has nothing to go back to
+  const closeTicket = () => {
+    if ((location.state as { fromBoard?: boolean } | null)?.fromBoard) {
+      navigate(-1);
+    } else {
+      navigate(
+        { pathname: projectFilter ? projectPath(projectFilter) : '/', search: location.search },
+        { replace: true }
+      );
     }
-    // Non-admins only see their accessible projects
-    return accessibleProjectNames.sort();
-  }, [accessibleTickets, role, accessibleProjectNames]);
+  };
+
+  const availableProjects = useVisibleProjects(accessibleTickets);
+
+  // Board columns come from the workflows of the projects on screen
+  const boardProjects = useMemo(
+    () => (projectFilter ? [projectFilter] : availableProjects),
+    [projectFilter, availableProjects]
+  );
+  const currentSprints = useCurrentSprints(boardProjects);
+  const runningSprints = useMemo(() => Object.values(currentSprints), [currentSprints]);
+
+  // Narrowed to the running sprints when asked
+  const boardTickets = useMemo(() => {
+    if (!currentSprintOnly) return filteredTickets;
+    const sprintIds = new Set(runningSprints.map((s) => s.id));
+    return filteredTickets.filter((t) => t.sprintId && sprintIds.has(t.sprintId));
+  }, [filteredTickets, currentSprintOnly, runningSprints]);
+
+  const { columns, workflows } = useBoardColumns(boardProjects, boardTickets);
+
+  // Values the query box validates and autocompletes against
+  const queryContext = useMemo<QueryContext>(
+    () => ({ projects: availableProjects, statuses: columns, assignees, me: user?.email }),
+    [availableProjects, columns, assignees, user?.email]
+  );
+
+  const canCreateTickets = canEdit && availableProjects.some((p) => canEditProject(p));
 
   // Loading states
   if (isLoading || projectsLoading) {
@@ -99,6 +200,38 @@ function Dashboard() {
     );
   }
 
+  // Link to a project board the user isn't a member of
+  if (projectFilter && !hasProjectAccess(projectFilter)) {
+    return (
+      <NoAccessPage
+        message={`You don't have access to ${projectFilter}. Ask a project owner to add you as a member.`}
+      />
+    );
+  }
+
+  // Deep link to a ticket the user can't see
+  if (selectedTicketId) {
+    if (ticketError instanceof TicketAccessError) {
+      return (
+        <NoAccessPage
+          title={ticketError.status === 404 ? 'Ticket Not Found' : 'No Access'}
+          message={
+            ticketError.status === 404
+              ? `Ticket ${selectedTicketId} doesn't exist or has been deleted.`
+              : `You don't have access to ticket ${selectedTicketId}. Ask a project owner to add you to its project.`
+          }
+        />
+      );
+    }
+    if (selectedTicket && role !== 'admin' && !hasProjectAccess(selectedTicket.project || 'Uncategorized')) {
+      return (
+        <NoAccessPage
+          message={`Ticket ${selectedTicket.id} belongs to ${selectedTicket.project}, which you don't have access to. Ask a project owner to add you.`}
+        />
+      );
+    }
+  }
+
   // No projects access state (non-admin with no projects)
   if (role !== 'admin' && userProjects.length === 0) {
     return (
@@ -129,6 +262,12 @@ function Dashboard() {
       <Header
         currentProject={projectFilter}
         onManageMembers={() => setShowMembersModal(true)}
+        onManageWorkflow={() => setShowWorkflowModal(true)}
+        onOpenOverview={projectFilter ? () => navigate(projectOverviewPath(projectFilter)) : undefined}
+        onOpenAnalytics={() => navigate(analyticsPath(projectFilter))}
+        onOpenSprints={projectFilter ? () => navigate(sprintsPath(projectFilter)) : undefined}
+        onNewTicket={canCreateTickets ? () => setCreateStatus('backlog') : undefined}
+        onOpenGroomingQueue={canCreateTickets ? () => setShowGroomingQueue(true) : undefined}
       />
 
       <div className="flex-1 overflow-hidden flex flex-col">
@@ -136,20 +275,75 @@ function Dashboard() {
           <ProjectFilter
             projects={availableProjects}
             selected={projectFilter}
-            onChange={setProjectFilter}
+            onChange={(project) => setFilters({ project })}
           />
-          <div className="mt-2 text-sm text-gray-500">
-            {filteredTickets.length} ticket{filteredTickets.length !== 1 ? 's' : ''}
-            {projectFilter && ` in ${projectFilter}`}
+          <div className="mt-3">
+            <QueryBar
+              filters={filters}
+              context={queryContext}
+              onApply={setFilters}
+            />
+          </div>
+          <div className="mt-2">
+            <FilterBar
+              filters={filters}
+              assignees={assignees}
+              onChange={setFilters}
+              onClear={clearFilters}
+            />
+          </div>
+          <div className="mt-2 flex items-center justify-between gap-4">
+            <div className="text-sm text-gray-500">
+              {(hasActiveFilters(filters) || currentSprintOnly) && `${boardTickets.length} of `}
+              {scopeTickets.length} ticket{scopeTickets.length !== 1 ? 's' : ''}
+              {projectFilter && ` in ${projectFilter}`}
+            </div>
+            <div className="flex items-center gap-4">
+              <SprintToggle sprints={runningSprints} value={currentSprintOnly} onChange={setCurrentSprintOnly} />
+              <SwimlanePicker value={swimlane} onChange={setSwimlane} />
+            </div>
           </div>
         </div>
 
         <div className="flex-1 overflow-hidden p-6">
-          <KanbanBoard tickets={filteredTickets} onTicketClick={setSelectedTicket} />
+          <KanbanBoard
+            tickets={boardTickets}
+            wipTickets={scopeTickets}
+            columns={columns}
+            workflows={workflows}
+            onTicketClick={openTicket}
+            onAddTicket={canCreateTickets ? setCreateStatus : undefined}
+            quickAdd={
+              canCreateTickets
+                ? { projects: availableProjects, defaultProject: projectFilter }
+                : undefined
+            }
+            swimlane={swimlane}
+          />
         </div>
       </div>
 
-      <TicketModal ticket={selectedTicket} onClose={() => setSelectedTicket(null)} />
+      <TicketModal
+        ticket={selectedTicket}
+        projects={availableProjects}
+        onClose={closeTicket}
+      />
+
+      {/* Loading a linked ticket that isn't on the board */}
+      {selectedTicketId && !selectedTicket && ticketFetching && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+          <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+        </div>
+      )}
+
+      {createStatus && (
+        <CreateTicketModal
+          projects={availableProjects}
+          defaultProject={projectFilter}
+          defaultStatus={createStatus}
+          onClose={() => setCreateStatus(null)}
+        />
+      )}
 
       {/* Project Members Modal */}
       {showMembersModal && projectFilter && (
@@ -158,28 +352,76 @@ function Dashboard() {
           onClose={() => setShowMembersModal(false)}
         />
       )}
+
+      {showGroomingQueue && (
+        <GroomingQueueModal
+          projects={availableProjects}
+          defaultProject={projectFilter}
+          onClose={() => setShowGroomingQueue(false)}
+        />
+      )}
+
+      {showWorkflowModal && projectFilter && (
+        <WorkflowSettingsModal
+          projectName={projectFilter}
+          onClose={() => setShowWorkflowModal(false)}
+        />
+      )}
     </div>
   );
 }
 
 export default function App() {
   return (
-    <QueryClientProvider client={queryClient}>
+    <PersistQueryClientProvider
+      client={queryClient}
+      persistOptions={{ persister: queryPersister, maxAge: CACHE_MAX_AGE }}
+      // Replay changes queued before the page was closed, then catch up
+      onSuccess={() => queryClient.resumePausedMutations().then(() => queryClient.invalidateQueries())}
+    >
       <BrowserRouter>
         <AuthProvider>
-          <Routes>
-            <Route path="/login" element={<LoginPage />} />
-            <Route
-              path="/*"
-              element={
-                <ProtectedRoute>
-                  <Dashboard />
-                </ProtectedRoute>
-              }
-            />
-          </Routes>
+          <SocketProvider>
+            <GroomingQueueProvider>
+              <Routes>
+                <Route path="/login" element={<LoginPage />} />
+                <Route
+                  path="/projects/:projectName/overview"
+                  element={
+                    <ProtectedRoute>
+                      <ProjectOverviewPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/projects/:projectName/sprints"
+                  element={
+                    <ProtectedRoute>
+                      <SprintPlanningPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/analytics"
+                  element={
+                    <ProtectedRoute>
+                      <AnalyticsPage />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/*"
+                  element={
+                    <ProtectedRoute>
+                      <Dashboard />
+                    </ProtectedRoute>
+                  }
+                />
+              </Routes>
+            </GroomingQueueProvider>
+          </SocketProvider>
         </AuthProvider>
       </BrowserRouter>
-    </QueryClientProvider>
+    </PersistQueryClientProvider>
   );
 }
@@ -1,4 +1,5 @@
 import { getAccessToken, supabase } from '../lib/supabase';
+import type { Workflow } from '../types/workflow';
 
 const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -18,6 +19,23 @@ export interface ProjectMember {
   created_at: string;
 }
 
+export type ProjectActivityAction = 'created' | 'updated' | 'moved' | 'deleted' | 'groomed';
+
+export interface ProjectActivity {
+  id: string;
+  ticketId: string;
+  ticketTitle?: string;
+  // Email of whoever made the change; null for automated changes such as grooming
+  actor: string | null;
+  action: ProjectActivityAction;
+  // Statuses for moves
+  from?: string;
+  to?: string;
+  // Changed fields for updates
+  fields?: string[];
+  createdAt: string;
+}
+
 /**
  * Get headers with authorization token
  */
@@ -65,6 +83,44 @@ export async function fetchProjectMembers(projectName: string): Promise<ProjectM
   return data.members;
 }
 
+/**
+ * Fetch a project's workflow definition, or null if it uses the default workflow
+ */
+export async function fetchProjectWorkflow(projectName: string): Promise<Workflow | null> {
+  const headers = await getAuthHeaders();
+  const encodedName = encodeURIComponent(projectName);
+  const response = await fetch(`${API_BASE}/projects/${encodedName}/workflow`, { headers });
+  if (response.status === 404) return null;
+  const data = await handleResponse<{ workflow: Workflow | null }>(response);
+  return data.workflow;
+}
+
+/**
+ * Fetch the most recent ticket activity in a project, newest first
+ */
+export async function fetchProjectActivity(projectName: string, limit = 20): Promise<ProjectActivity[]> {
+  const headers = await getAuthHeaders();
+  const encodedName = encodeURIComponent(projectName);
+  const response = await fetch(`${API_BASE}/projects/${encodedName}/activity?limit=${limit}`, { headers });
+  const data = await handleResponse<{ activity: ProjectActivity[] }>(response);
+  return data.activity;
+}
+
+/**
+ * Save a project's workflow definition (owner or admin only)
+ */
+export async function updateProjectWorkflow(projectName: string, workflow: Workflow): Promise<Workflow> {
+  const headers = await getAuthHeaders();
+  const encodedName = encodeURIComponent(projectName);
+  const response = await fetch(`${API_BASE}/projects/${encodedName}/workflow`, {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify(workflow),
+  });
+  const data = await handleResponse<{ success: boolean; workflow: Workflow }>(response);
+  return data.workflow;
+}
+
 /**
  * Add a member to a project
  */
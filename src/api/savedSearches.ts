@@ -0,0 +1,73 @@
+import { getAccessToken, supabase } from '../lib/supabase';
+
+const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  // Board query in the syntax of lib/ticketQuery.ts
+  query: string;
+  createdAt: string;
+}
+
+/**
+ * Get headers with authorization token
+ */
+async function getAuthHeaders(): Promise<HeadersInit> {
+  const token = await getAccessToken();
+  return {
+    'Content-Type': 'application/json',
+    ...(token && { Authorization: `Bearer ${token}` }),
+  };
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    if (response.status === 401) {
+      console.log('Auth token expired, signing out...');
+      await supabase.auth.signOut();
+      window.location.href = '/login';
+      throw new Error('Session expired. Please sign in again.');
+    }
+
+    const error = await response.json().catch(() => ({ message: 'Network error' }));
+    throw new Error(error.message || `HTTP error ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetch the current user's saved searches
+ */
+export async function fetchSavedSearches(): Promise<SavedSearch[]> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_BASE}/saved-searches`, { headers });
+  const data = await handleResponse<{ searches: SavedSearch[] }>(response);
+  return data.searches;
+}
+
+/**
+ * Save a query under a name for the current user
+ */
+export async function createSavedSearch(search: { name: string; query: string }): Promise<SavedSearch> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_BASE}/saved-searches`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(search),
+  });
+  const data = await handleResponse<{ search: SavedSearch }>(response);
+  return data.search;
+}
+
+/**
+ * Delete one of the current user's saved searches
+ */
+export async function deleteSavedSearch(id: string): Promise<void> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_BASE}/saved-searches/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers,
+  });
+  await handleResponse<{ success: boolean }>(response);
+}
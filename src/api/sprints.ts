@@ -0,0 +1,92 @@
+import { getAccessToken, supabase } from '../lib/supabase';
+import type { Sprint, SprintInput, SprintScopeChange } from '../types/sprint';
+
+const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+/**
+ * Get headers with authorization token
+ */
+async function getAuthHeaders(): Promise<HeadersInit> {
+  const token = await getAccessToken();
+  return {
+    'Content-Type': 'application/json',
+    ...(token && { Authorization: `Bearer ${token}` }),
+  };
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    if (response.status === 401) {
+      console.log('Auth token expired, signing out...');
+      await supabase.auth.signOut();
+      window.location.href = '/login';
+      throw new Error('Session expired. Please sign in again.');
+    }
+
+    const error = await response.json().catch(() => ({ message: 'Network error' }));
+    throw new Error(error.message || `HTTP error ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Every sprint of a project, oldest first
+ */
+export async function fetchSprints(projectName: string): Promise<Sprint[]> {
+  const headers = await getAuthHeaders();
+  const encodedName = encodeURIComponent(projectName);
+  const response = await fetch(`${API_BASE}/projects/${encodedName}/sprints`, { headers });
+  const data = await handleResponse<{ sprints: Sprint[] }>(response);
+  return data.sprints;
+}
+
+/**
+ * Every time a ticket was added to or taken out of a sprint, oldest first
+ */
+export async function fetchSprintScope(id: string): Promise<SprintScopeChange[]> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_BASE}/sprints/${encodeURIComponent(id)}/scope`, { headers });
+  const data = await handleResponse<{ changes: SprintScopeChange[] }>(response);
+  return data.changes;
+}
+
+/**
+ * Plan a new sprint (owner or admin only)
+ */
+export async function createSprint(projectName: string, sprint: SprintInput): Promise<Sprint> {
+  const headers = await getAuthHeaders();
+  const encodedName = encodeURIComponent(projectName);
+  const response = await fetch(`${API_BASE}/projects/${encodedName}/sprints`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(sprint),
+  });
+  const data = await handleResponse<{ sprint: Sprint }>(response);
+  return data.sprint;
+}
+
+/**
+ * Change a sprint's dates, capacity or goal (owner or admin only)
+ */
+export async function updateSprint(id: string, sprint: Partial<SprintInput>): Promise<Sprint> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_BASE}/sprints/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify(sprint),
+  });
+  const data = await handleResponse<{ sprint: Sprint }>(response);
+  return data.sprint;
+}
+
+/**
+ * Delete a sprint (owner or admin only). Its tickets go back to the backlog.
+ */
+export async function deleteSprint(id: string): Promise<void> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_BASE}/sprints/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers,
+  });
+  await handleResponse<{ success: boolean }>(response);
+}
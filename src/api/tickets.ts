@@ -1,4 +1,4 @@
-import type { Ticket, TicketUpdate } from '../types/ticket';
+import type { GroomingAttempt, Ticket, TicketTransition, TicketUpdate } from '../types/ticket';
 import { getAccessToken, supabase } from '../lib/supabase';
 
 const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
@@ -50,20 +50,81 @@ export async function fetchTickets(filters?: {
   return data.tickets;
 }
 
+/**
+ * Every status change of the tickets in a project, or in every project the
+ * user can see, oldest first. Deleted tickets aren't included.
+ */
+export async function fetchTicketTransitions(project?: string): Promise<TicketTransition[]> {
+  const url = project
+    ? `${API_BASE}/tickets/transitions?project=${encodeURIComponent(project)}`
+    : `${API_BASE}/tickets/transitions`;
+
+  const headers = await getAuthHeaders();
+  const response = await fetch(url, { headers });
+  const data = await handleResponse<{ transitions: TicketTransition[] }>(response);
+  return data.transitions;
+}
+
+/**
+ * A ticket that doesn't exist, or that the current user isn't allowed to see
+ */
+export class TicketAccessError extends Error {
+  readonly ticketId: string;
+  readonly status: number;
+
+  constructor(ticketId: string, status: number) {
+    super(status === 404 ? `Ticket ${ticketId} not found` : `You don't have access to ticket ${ticketId}`);
+    this.name = 'TicketAccessError';
+    this.ticketId = ticketId;
+    this.status = status;
+  }
+}
+
 export async function fetchTicket(id: string): Promise<Ticket> {
   const headers = await getAuthHeaders();
-  const response = await fetch(`${API_BASE}/tickets/${id}`, { headers });
+  const response = await fetch(`${API_BASE}/tickets/${encodeURIComponent(id)}`, { headers });
+  if (response.status === 403 || response.status === 404) {
+    throw new TicketAccessError(id, response.status);
+  }
   const data = await handleResponse<{ ticket: Ticket }>(response);
   return data.ticket;
 }
 
-export async function updateTicket(id: string, update: TicketUpdate): Promise<Ticket> {
+/**
+ * The ticket changed on the server since the edit started. `current` is the
+ * server's version, to merge against.
+ */
+export class TicketConflictError extends Error {
+  readonly current: Ticket;
+
+  constructor(current: Ticket, message?: string) {
+    super(message || `Ticket ${current.id} was changed by someone else`);
+    this.name = 'TicketConflictError';
+    this.current = current;
+  }
+}
+
+/**
+ * With `expectedUpdatedAt` the server rejects the update with a 409 if the
+ * ticket has been saved since then, instead of overwriting that save
+ */
+export async function updateTicket(
+  id: string,
+  update: TicketUpdate,
+  expectedUpdatedAt?: string
+): Promise<Ticket> {
   const headers = await getAuthHeaders();
   const response = await fetch(`${API_BASE}/tickets/${id}`, {
     method: 'PATCH',
     headers,
-    body: JSON.stringify(update),
+    body: JSON.stringify(expectedUpdatedAt ? { ...update, expectedUpdatedAt } : update),
   });
+  if (response.status === 409) {
+    const conflict = await response.json().catch(() => null);
+    if (conflict?.ticket) {
+      throw new TicketConflictError(conflict.ticket, conflict.message);
+    }
+  }
   const data = await handleResponse<{ ticket: Ticket }>(response);
   return data.ticket;
 }
@@ -97,19 +158,72 @@ export async function deleteTicket(id: string): Promise<void> {
 
 export async function triggerGrooming(id: string): Promise<{ status: string; ticketId: string; sessionKey?: string }> {
   const headers = await getAuthHeaders();
-  const response = await fetch(`${API_BASE}/tickets/${id}/groom`, {
+  const response = await fetch(`${API_BASE}/tickets/${encodeURIComponent(id)}/groom`, {
     method: 'POST',
     headers,
   });
   return handleResponse<{ status: string; ticketId: string; sessionKey?: string }>(response);
 }
 
-export async function moveTicket(id: string, newStatus: string): Promise<Ticket> {
+export async function fetchGroomingAttempts(id: string): Promise<GroomingAttempt[]> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_BASE}/tickets/${encodeURIComponent(id)}/grooming`, { headers });
+  const data = await handleResponse<{ attempts: GroomingAttempt[] }>(response);
+  return data.attempts;
+}
+
+/**
+ * Stop a pending or running groom. The ticket goes back to ungroomed.
+ */
+export async function cancelGrooming(id: string): Promise<Ticket> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_BASE}/tickets/${encodeURIComponent(id)}/groom`, {
+    method: 'DELETE',
+    headers,
+  });
+  const data = await handleResponse<{ ticket: Ticket }>(response);
+  return data.ticket;
+}
+
+/**
+ * Take the ticket out of automatic grooming, for tickets groomed by hand
+ */
+export async function markGroomingManual(id: string): Promise<Ticket> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_BASE}/tickets/${encodeURIComponent(id)}/groom/manual`, {
+    method: 'POST',
+    headers,
+  });
+  const data = await handleResponse<{ ticket: Ticket }>(response);
+  return data.ticket;
+}
+
+// `overrideRules` moves past the status's entry rules, which only project owners may do
+export async function moveTicket(id: string, newStatus: string, overrideRules?: boolean): Promise<Ticket> {
   const headers = await getAuthHeaders();
   const response = await fetch(`${API_BASE}/tickets/${id}/move`, {
     method: 'PATCH',
     headers,
-    body: JSON.stringify({ newStatus }),
+    body: JSON.stringify(overrideRules ? { newStatus, overrideRules } : { newStatus }),
+  });
+  const data = await handleResponse<{ success: boolean; ticket: Ticket }>(response);
+  return data.ticket;
+}
+
+/**
+ * Place a ticket at `rank` in a status. With `laneOrder`, the server first
+ * renumbers those tickets in that order (see laneOrderRanks in lib/rank.ts),
+ * moving the status's other tickets along with them.
+ */
+export async function reorderTicket(
+  id: string,
+  position: { status: string; rank: number; overrideRules?: boolean; laneOrder?: string[] }
+): Promise<Ticket> {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_BASE}/tickets/${id}/reorder`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify(position),
   });
   const data = await handleResponse<{ success: boolean; ticket: Ticket }>(response);
   return data.ticket;
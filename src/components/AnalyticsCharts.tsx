@@ -0,0 +1,262 @@
+import { format } from 'date-fns';
+import clsx from 'clsx';
+import type { WorkflowStatus } from '../types/workflow';
+import { WORKFLOW_BAR_COLORS, WORKFLOW_FILL_COLORS } from '../types/workflow';
+import type { CumulativeFlowDay, ThroughputWeek } from '../lib/analytics';
+import type { BurndownDay } from '../lib/sprints';
+
+// Charts are drawn in this coordinate space and scaled to their container
+const WIDTH = 640;
+const HEIGHT = 220;
+const PAD = { top: 12, right: 12, bottom: 24, left: 36 };
+const PLOT_WIDTH = WIDTH - PAD.left - PAD.right;
+const PLOT_HEIGHT = HEIGHT - PAD.top - PAD.bottom;
+
+function scaleY(value: number, max: number) {
+  return PAD.top + PLOT_HEIGHT - (value / max) * PLOT_HEIGHT;
+}
+
+interface AxesProps {
+  max: number;
+  // Labels along the bottom, by x position
+  xLabels: Array<{ x: number; label: string }>;
+  yLabel?: string;
+}
+
+function Axes({ max, xLabels, yLabel }: AxesProps) {
+  return (
+    <g className="text-[10px] fill-gray-400">
+      <line
+        x1={PAD.left}
+        y1={PAD.top + PLOT_HEIGHT}
+        x2={WIDTH - PAD.right}
+        y2={PAD.top + PLOT_HEIGHT}
+        className="stroke-gray-600"
+      />
+      {[0, max / 2, max].map((value) => (
+        <g key={value}>
+          <line
+            x1={PAD.left}
+            y1={scaleY(value, max)}
+            x2={WIDTH - PAD.right}
+            y2={scaleY(value, max)}
+            className="stroke-gray-700"
+            strokeDasharray={value === 0 ? undefined : '2 3'}
+          />
+          <text x={PAD.left - 6} y={scaleY(value, max) + 3} textAnchor="end">
+            {Number.isInteger(value) ? value : value.toFixed(1)}
+          </text>
+        </g>
+      ))}
+      {xLabels.map(({ x, label }) => (
+        <text key={`${x}-${label}`} x={x} y={HEIGHT - 6} textAnchor="middle">
+          {label}
+        </text>
+      ))}
+      {yLabel && (
+        <text x={PAD.left} y={PAD.top - 3}>
+          {yLabel}
+        </text>
+      )}
+    </g>
+  );
+}
+
+interface CumulativeFlowChartProps {
+  days: CumulativeFlowDay[];
+  // In workflow order; done statuses end up at the bottom of the stack
+  columns: WorkflowStatus[];
+}
+
+/**
+ * Stacked areas of how many tickets sat in each status day by day
+ */
+export function CumulativeFlowChart({ days, columns }: CumulativeFlowChartProps) {
+  const layers = [...columns].reverse();
+  const totals = days.map((day) => layers.reduce((sum, column) => sum + (day.counts[column.id] ?? 0), 0));
+  const max = Math.max(1, ...totals);
+  const x = (i: number) => PAD.left + (days.length > 1 ? (i / (days.length - 1)) * PLOT_WIDTH : PLOT_WIDTH / 2);
+
+  // Running totals below each layer, per day
+  const base = days.map(() => 0);
+  const areas = layers.map((column) => {
+    const lower = [...base];
+    days.forEach((day, i) => (base[i] += day.counts[column.id] ?? 0));
+    const top = days.map((_, i) => `${x(i)},${scaleY(base[i], max)}`);
+    const bottom = days.map((_, i) => `${x(i)},${scaleY(lower[i], max)}`).reverse();
+    return { column, path: `M${top.join('L')}L${bottom.join('L')}Z` };
+  });
+
+  const labelAt = [...new Set([0, Math.floor((days.length - 1) / 2), days.length - 1])].filter((i) => i >= 0);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Cumulative flow">
+        <Axes max={max} xLabels={labelAt.map((i) => ({ x: x(i), label: format(days[i].day, 'MMM d') }))} />
+        {areas.map(({ column, path }) => (
+          <path
+            key={column.id}
+            d={path}
+            className={clsx(WORKFLOW_FILL_COLORS[column.color] ?? WORKFLOW_FILL_COLORS.gray, 'opacity-80')}
+          >
+            <title>{column.label}</title>
+          </path>
+        ))}
+      </svg>
+      <ul className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-300">
+        {columns.map((column) => (
+          <li key={column.id} className="flex items-center gap-1.5">
+            <span
+              className={clsx('w-2.5 h-2.5 rounded-sm', WORKFLOW_BAR_COLORS[column.color] ?? WORKFLOW_BAR_COLORS.gray)}
+            />
+            {column.label}
+            <span className="text-gray-500">{days[days.length - 1]?.counts[column.id] ?? 0}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+interface ThroughputChartProps {
+  weeks: ThroughputWeek[];
+}
+
+/**
+ * Tickets finished per week
+ */
+export function ThroughputChart({ weeks }: ThroughputChartProps) {
+  const max = Math.max(1, ...weeks.map((w) => w.count));
+  const slot = PLOT_WIDTH / Math.max(1, weeks.length);
+  const barWidth = Math.max(2, slot * 0.7);
+  // Every label fits up to a quarter's worth of weeks
+  const labelEvery = Math.ceil(weeks.length / 13);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Weekly throughput">
+      <Axes
+        max={max}
+        xLabels={weeks.flatMap((week, i) =>
+          i % labelEvery === 0 ? [{ x: PAD.left + slot * (i + 0.5), label: format(week.week, 'MMM d') }] : []
+        )}
+      />
+      {weeks.map((week, i) => {
+        const y = scaleY(week.count, max);
+        return (
+          <g key={week.week}>
+            <rect
+              x={PAD.left + slot * i + (slot - barWidth) / 2}
+              y={y}
+              width={barWidth}
+              height={PAD.top + PLOT_HEIGHT - y}
+              rx={2}
+              className="fill-blue-500"
+            >
+              <title>{`Week of ${format(week.week, 'MMM d')}: ${week.count} finished`}</title>
+            </rect>
+            {week.count > 0 && slot >= 16 && (
+              <text
+                x={PAD.left + slot * (i + 0.5)}
+                y={y - 3}
+                textAnchor="middle"
+                className="text-[10px] fill-gray-300"
+              >
+                {week.count}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export interface EstimatePoint {
+  ticketId: string;
+  title: string;
+  estimate: number;
+  // Days spent in in-progress statuses
+  days: number;
+}
+
+interface EstimateScatterChartProps {
+  points: EstimatePoint[];
+}
+
+/**
+ * Each finished ticket's estimate against the time it was actually worked on
+ */
+export function EstimateScatterChart({ points }: EstimateScatterChartProps) {
+  const maxEstimate = Math.max(1, ...points.map((p) => p.estimate));
+  const maxDays = Math.max(1, ...points.map((p) => p.days));
+  const x = (estimate: number) => PAD.left + (estimate / maxEstimate) * PLOT_WIDTH;
+
+  const ticks = [...new Set([0, Math.round(maxEstimate / 2), maxEstimate])];
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Estimate against time in progress"
+    >
+      <Axes
+        max={maxDays}
+        yLabel="days"
+        xLabels={ticks.map((tick) => ({ x: x(tick), label: `${tick} pt` }))}
+      />
+      {points.map((point) => (
+        <circle
+          key={point.ticketId}
+          cx={x(point.estimate)}
+          cy={scaleY(point.days, maxDays)}
+          r={4}
+          className="fill-purple-500/70 stroke-purple-300"
+        >
+          <title>{`${point.ticketId} ${point.title}: ${point.estimate} pt, ${point.days.toFixed(1)} days in progress`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+interface BurndownChartProps {
+  days: BurndownDay[];
+}
+
+/**
+ * Points left in a sprint each day, against the ideal even pace
+ */
+export function BurndownChart({ days }: BurndownChartProps) {
+  const max = Math.max(1, ...days.map((d) => Math.max(d.ideal, d.remaining ?? 0)));
+  const x = (i: number) => PAD.left + (days.length > 1 ? (i / (days.length - 1)) * PLOT_WIDTH : PLOT_WIDTH / 2);
+  const line = (values: Array<number | null>) =>
+    values.flatMap((value, i) => (value === null ? [] : [`${x(i)},${scaleY(value, max)}`])).join(' ');
+
+  const labelAt = [...new Set([0, Math.floor((days.length - 1) / 2), days.length - 1])].filter((i) => i >= 0);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Sprint burndown">
+      <Axes
+        max={max}
+        yLabel="points"
+        xLabels={labelAt.map((i) => ({ x: x(i), label: format(days[i].day, 'MMM d') }))}
+      />
+      <polyline
+        points={line(days.map((d) => d.ideal))}
+        className="fill-none stroke-gray-500"
+        strokeDasharray="4 4"
+        strokeWidth={1.5}
+      />
+      <polyline points={line(days.map((d) => d.remaining))} className="fill-none stroke-blue-400" strokeWidth={2} />
+      {days.map(
+        (day, i) =>
+          day.remaining !== null && (
+            <circle key={day.day} cx={x(i)} cy={scaleY(day.remaining, max)} r={3} className="fill-blue-400">
+              <title>{`${format(day.day, 'MMM d')}: ${day.remaining} points left`}</title>
+            </circle>
+          )
+      )}
+    </svg>
+  );
+}
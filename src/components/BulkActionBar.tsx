@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { Sparkles, Trash2, X } from 'lucide-react';
+import type { Priority, Ticket, TicketUpdate } from '../types/ticket';
+import type { WorkflowStatus } from '../types/workflow';
+import type { BulkTicketActions } from '../hooks/useBulkTicketActions';
+import { summarizeBulkResult } from '../lib/bulkActions';
+import type { BulkResult } from '../lib/bulkActions';
+
+const PRIORITIES: Priority[] = ['low', 'medium', 'high'];
+
+const selectClassName = 'bg-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface BulkActionBarProps {
+  tickets: Ticket[];
+  columns: WorkflowStatus[];
+  projects: string[];
+  // Suggestions for the assignee field
+  assignees: string[];
+  actions: BulkTicketActions;
+  // Summary of what was skipped, or null when every ticket was changed
+  onResult: (message: string | null) => void;
+  onClear: () => void;
+}
+
+/**
+ * Apply one change to every selected ticket
+ */
+export function BulkActionBar({ tickets, columns, projects, assignees, actions, onResult, onClear }: BulkActionBarProps) {
+  const [assignee, setAssignee] = useState('');
+  const [estimate, setEstimate] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const report = (verb: string, result: BulkResult) => onResult(summarizeBulkResult(verb, result));
+
+  const applyUpdate = async (change: TicketUpdate) => {
+    setBusy(true);
+    try {
+      report('Updated', await actions.update(tickets, change));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAssign = (e: FormEvent) => {
+    e.preventDefault();
+    void applyUpdate({ assignee: assignee.trim() || null });
+    setAssignee('');
+  };
+
+  const handleEstimate = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = estimate.trim();
+    const value = trimmed ? Number(trimmed) : null;
+    if (value !== null && (Number.isNaN(value) || value < 0)) {
+      onResult('Estimate must be a non-negative number of points.');
+      return;
+    }
+    void applyUpdate({ estimate: value });
+    setEstimate('');
+  };
+
+  const handleDelete = () => {
+    const result = actions.remove(tickets);
+    if (!result) return;
+    report('Deleted', result);
+    onClear();
+  };
+
+  return (
+    <div
+      role="toolbar"
+      aria-label={`Bulk actions for ${tickets.length} selected tickets`}
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex flex-wrap items-center gap-2 px-4 py-2 bg-gray-800 border border-gray-600 rounded-xl shadow-2xl"
+    >
+      <span className="text-sm font-medium text-gray-200 mr-1">{tickets.length} selected</span>
+
+      <select
+        value=""
+        onChange={(e) => report('Moved', actions.move(tickets, e.target.value))}
+        disabled={busy}
+        className={selectClassName}
+        aria-label="Move to status"
+      >
+        <option value="" disabled>
+          Status…
+        </option>
+        {columns.map((column) => (
+          <option key={column.id} value={column.id}>
+            {column.label}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value=""
+        onChange={(e) => void applyUpdate({ priority: e.target.value as Priority })}
+        disabled={busy}
+        className={selectClassName}
+        aria-label="Set priority"
+      >
+        <option value="" disabled>
+          Priority…
+        </option>
+        {PRIORITIES.map((priority) => (
+          <option key={priority} value={priority}>
+            {priority}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value=""
+        onChange={(e) => void applyUpdate({ project: e.target.value })}
+        disabled={busy}
+        className={selectClassName}
+        aria-label="Move to project"
+      >
+        <option value="" disabled>
+          Project…
+        </option>
+        {projects.map((project) => (
+          <option key={project} value={project}>
+            {project}
+          </option>
+        ))}
+      </select>
+
+      <form onSubmit={handleAssign} className="flex items-center gap-1">
+        <input
+          type="text"
+          list="bulk-assignees"
+          value={assignee}
+          onChange={(e) => setAssignee(e.target.value)}
+          placeholder="Assignee"
+          className={`${selectClassName} w-36`}
+          title="Leave empty and press Enter to unassign"
+        />
+        <datalist id="bulk-assignees">
+          {assignees.map((email) => (
+            <option key={email} value={email} />
+          ))}
+        </datalist>
+        <button type="submit" disabled={busy} className="px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50">
+          {assignee.trim() ? 'Assign' : 'Unassign'}
+        </button>
+      </form>
+
+      <form onSubmit={handleEstimate} className="flex items-center gap-1">
+        <input
+          type="number"
+          min={0}
+          value={estimate}
+          onChange={(e) => setEstimate(e.target.value)}
+          placeholder="Points"
+          className={`${selectClassName} w-20`}
+        />
+        <button type="submit" disabled={busy} className="px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50">
+          Estimate
+        </button>
+      </form>
+
+      <button
+        onClick={() => report('Queued', actions.groom(tickets))}
+        disabled={busy}
+        className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-purple-500/10 text-purple-400 hover:bg-purple-500/20 disabled:opacity-50"
+      >
+        <Sparkles className="w-3 h-3" />
+        Groom
+      </button>
+
+      <button
+        onClick={handleDelete}
+        disabled={busy}
+        className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-red-500/10 text-red-400 hover:bg-red-500/20 disabled:opacity-50"
+      >
+        <Trash2 className="w-3 h-3" />
+        Delete
+      </button>
+
+      <button onClick={onClear} className="p-1 rounded hover:bg-gray-700" title="Clear selection (Esc)">
+        <X className="w-4 h-4 text-gray-400" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { LogIn, Loader2, RotateCw } from 'lucide-react';
+import clsx from 'clsx';
+import { useAuth } from '../contexts/AuthContext';
+import { useSocket } from '../hooks/useSocket';
+import type { ConnectionStatus } from '../hooks/useSocket';
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+  connecting: 'Connecting',
+  live: 'Live',
+  reconnecting: 'Reconnecting',
+  offline: 'Offline',
+  unauthorized: 'Session expired',
+};
+
+const STATUS_DESCRIPTIONS: Record<ConnectionStatus, string> = {
+  connecting: 'Connecting to live updates',
+  live: 'Receiving live updates',
+  reconnecting: 'Connection lost, retrying. The board may be out of date.',
+  offline: 'Not receiving live updates. The board may be out of date.',
+  unauthorized: 'Your session expired and could not be renewed. Sign in again to get live updates.',
+};
+
+const STATUS_DOTS: Record<ConnectionStatus, string> = {
+  connecting: 'bg-gray-400',
+  live: 'bg-green-500',
+  reconnecting: 'bg-yellow-500',
+  offline: 'bg-red-500',
+  unauthorized: 'bg-red-500',
+};
+
+/**
+ * Whether the board is receiving realtime updates, with a way to retry
+ */
+export function ConnectionIndicator() {
+  const { status, reconnect } = useSocket();
+  const { signOut } = useAuth();
+  const retrying = status === 'connecting' || status === 'reconnecting';
+
+  return (
+    <div className="flex items-center gap-2" title={STATUS_DESCRIPTIONS[status]}>
+      <span
+        role="status"
+        className={clsx(
+          'flex items-center gap-1.5 text-xs',
+          status === 'live' ? 'text-gray-400' : retrying ? 'text-yellow-400' : 'text-red-400'
+        )}
+      >
+        {retrying ? (
+          <Loader2 className="w-3 h-3 animate-spin" />
+        ) : (
+          <span className={clsx('w-2 h-2 rounded-full', STATUS_DOTS[status])} />
+        )}
+        {STATUS_LABELS[status]}
+      </span>
+      {status === 'unauthorized' && (
+        // Signing out brings up the login page, which returns here afterwards.
+        // Changes queued meanwhile are sent once the same user is back.
+        <button
+          onClick={() => signOut({ keepQueuedChanges: true })}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs text-white bg-blue-600 hover:bg-blue-500 transition-colors"
+        >
+          <LogIn className="w-3 h-3" />
+          Sign in again
+        </button>
+      )}
+      {(status === 'reconnecting' || status === 'offline') && (
+        <button
+          onClick={reconnect}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs text-gray-300 bg-gray-700 hover:bg-gray-600 transition-colors"
+          title="Reconnect now"
+        >
+          <RotateCw className="w-3 h-3" />
+          Reconnect
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { onlineManager } from '@tanstack/react-query';
+import type { TicketStatus, Priority } from '../types/ticket';
+import { useCreateTicket } from '../hooks/useTickets';
+import { useProjectMembers } from '../hooks/useProjects';
+import { useProjectWorkflow } from '../hooks/useWorkflows';
+import { findWorkflowStatus } from '../lib/workflow';
+import { useAuth } from '../contexts/AuthContext';
+import { MarkdownBody } from './MarkdownBody';
+import { X, Loader2, Lock } from 'lucide-react';
+import clsx from 'clsx';
+
+interface CreateTicketModalProps {
+  projects: string[];
+  defaultProject?: string | null;
+  defaultStatus?: TicketStatus;
+  onClose: () => void;
+}
+
+export function CreateTicketModal({
+  projects,
+  defaultProject,
+  defaultStatus = 'backlog',
+  onClose,
+}: CreateTicketModalProps) {
+  const { canEdit, canEditProject } = useAuth();
+  const createTicket = useCreateTicket();
+
+  // Only offer projects the user can create tickets in
+  const editableProjects = canEdit ? projects.filter((p) => canEditProject(p)) : [];
+
+  const [project, setProject] = useState(
+    defaultProject && editableProjects.includes(defaultProject)
+      ? defaultProject
+      : editableProjects[0] ?? ''
+  );
+  const [title, setTitle] = useState('');
+  const [priority, setPriority] = useState<Priority>('medium');
+  const [status, setStatus] = useState<TicketStatus>(defaultStatus);
+  const [estimate, setEstimate] = useState('');
+  const [assignee, setAssignee] = useState('');
+  const [body, setBody] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
+
+  const { data: members = [], isLoading: membersLoading } = useProjectMembers(project || null);
+  const workflow = useProjectWorkflow(project || null);
+
+  // The chosen lane may not exist in the selected project's workflow
+  const effectiveStatus = findWorkflowStatus(workflow, status) ? status : workflow.statuses[0]?.id;
+
+  const handleProjectChange = (value: string) => {
+    setProject(value);
+    // Assignees are per project, so the previous pick may not be valid anymore
+    setAssignee('');
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!project || !title.trim()) return;
+
+    const parsedEstimate = estimate.trim() ? Number(estimate) : undefined;
+
+    createTicket.mutate(
+      {
+        project,
+        title: title.trim(),
+        priority,
+        status: effectiveStatus,
+        body,
+        ...(assignee && { assignee }),
+        ...(parsedEstimate !== undefined && !Number.isNaN(parsedEstimate) && { estimate: parsedEstimate }),
+      },
+      {
+        onSuccess: () => onClose(),
+      }
+    );
+    // Offline the ticket is queued and already on the board
+    if (!onlineManager.isOnline()) onClose();
+  };
+
+  const inputClass =
+    'w-full bg-gray-700 rounded px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-gray-800 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white">New Ticket</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {editableProjects.length === 0 && (
+            <div className="flex items-center gap-2 px-3 py-2 bg-blue-500/10 border border-blue-500/20 rounded-lg">
+              <Lock className="w-4 h-4 text-blue-400" />
+              <span className="text-sm text-blue-400">
+                You need Member access to a project to create tickets.
+              </span>
+            </div>
+          )}
+
+          {createTicket.error && (
+            <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-400 text-sm">
+              {createTicket.error instanceof Error
+                ? createTicket.error.message
+                : 'Failed to create ticket'}
+            </div>
+          )}
+
+          <div>
+            <label className="text-xs text-gray-400 block mb-1">Title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="What needs to be done?"
+              className={clsx(inputClass, 'text-base')}
+              autoFocus
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="text-xs text-gray-400 block mb-1">Project</label>
+              <select
+                value={project}
+                onChange={(e) => handleProjectChange(e.target.value)}
+                className={inputClass}
+                required
+              >
+                {editableProjects.map((p) => (
+                  <option key={p} value={p}>
+                    {p}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="text-xs text-gray-400 block mb-1">Status</label>
+              <select
+                value={effectiveStatus}
+                onChange={(e) => setStatus(e.target.value as TicketStatus)}
+                className={inputClass}
+              >
+                {workflow.statuses.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="text-xs text-gray-400 block mb-1">Priority</label>
+              <select
+                value={priority}
+                onChange={(e) => setPriority(e.target.value as Priority)}
+                className={inputClass}
+              >
+                <option value="low">Low</option>
+                <option value="medium">Medium</option>
+                <option value="high">High</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="text-xs text-gray-400 block mb-1">Assignee</label>
+              <select
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+                disabled={!project || membersLoading}
+                className={clsx(inputClass, 'disabled:opacity-60')}
+              >
+                <option value="">Unassigned</option>
+                {members.map((m) => (
+                  <option key={m.user_id} value={m.email}>
+                    {m.email}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="text-xs text-gray-400 block mb-1">Estimate (points)</label>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={estimate}
+                onChange={(e) => setEstimate(e.target.value)}
+                placeholder="—"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* Body */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-xs text-gray-400">Description</label>
+              <div className="flex gap-1 text-xs">
+                <button
+                  type="button"
+                  onClick={() => setShowPreview(false)}
+                  className={clsx(
+                    'px-2 py-0.5 rounded transition-colors',
+                    !showPreview ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-gray-200'
+                  )}
+                >
+                  Write
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowPreview(true)}
+                  className={clsx(
+                    'px-2 py-0.5 rounded transition-colors',
+                    showPreview ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-gray-200'
+                  )}
+                >
+                  Preview
+                </button>
+              </div>
+            </div>
+            {showPreview ? (
+              <MarkdownBody source={body} emptyText="Nothing to preview" className="min-h-[200px]" />
+            ) : (
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                placeholder="Markdown supported"
+                className="w-full bg-gray-700 rounded px-3 py-2 text-sm font-mono min-h-[200px]"
+              />
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 p-4 border-t border-gray-700">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-1.5 rounded bg-gray-700 hover:bg-gray-600 transition-colors text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={createTicket.isPending || !project || !title.trim()}
+            className="flex items-center gap-1 px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 transition-colors text-sm disabled:opacity-50"
+          >
+            {createTicket.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            {createTicket.isPending ? 'Creating...' : 'Create Ticket'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
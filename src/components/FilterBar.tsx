@@ -0,0 +1,136 @@
+import { Search, X } from 'lucide-react';
+import type { Priority } from '../types/ticket';
+import { UNASSIGNED_FILTER, hasActiveFilters } from '../lib/ticketFilters';
+import type { EstimateFilter, GroomingFilter, TicketFilters } from '../lib/ticketFilters';
+
+interface FilterBarProps {
+  filters: TicketFilters;
+  assignees: string[];
+  onChange: (patch: Partial<TicketFilters>) => void;
+  onClear: () => void;
+}
+
+const GROOMING_LABELS: Record<GroomingFilter, string> = {
+  'none': 'Not groomed',
+  'pending': 'Pending',
+  'in-progress': 'In progress',
+  'complete': 'Complete',
+  'failed': 'Failed',
+  'manual': 'Manual',
+};
+
+const selectClass =
+  'bg-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function parseScore(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+export function FilterBar({ filters, assignees, onChange, onClear }: FilterBarProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative">
+        <Search className="w-4 h-4 text-gray-500 absolute left-2 top-1/2 -translate-y-1/2" />
+        <input
+          type="search"
+          value={filters.search}
+          onChange={(e) => onChange({ search: e.target.value })}
+          placeholder="Search title, ID or description"
+          aria-label="Search tickets"
+          className="bg-gray-700 rounded pl-8 pr-2 py-1 text-sm w-64 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <select
+        value={filters.priority ?? ''}
+        onChange={(e) => onChange({ priority: (e.target.value as Priority) || null })}
+        aria-label="Priority"
+        className={selectClass}
+      >
+        <option value="">Any priority</option>
+        <option value="high">High</option>
+        <option value="medium">Medium</option>
+        <option value="low">Low</option>
+      </select>
+
+      <select
+        value={filters.assignee ?? ''}
+        onChange={(e) => onChange({ assignee: e.target.value || null })}
+        aria-label="Assignee"
+        className={selectClass}
+      >
+        <option value="">Any assignee</option>
+        <option value={UNASSIGNED_FILTER}>Unassigned</option>
+        {/* Keep a linked assignee selectable even if no loaded ticket has them */}
+        {filters.assignee && filters.assignee !== UNASSIGNED_FILTER && !assignees.includes(filters.assignee) && (
+          <option value={filters.assignee}>{filters.assignee}</option>
+        )}
+        {assignees.map((email) => (
+          <option key={email} value={email}>
+            {email}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value={filters.grooming ?? ''}
+        onChange={(e) => onChange({ grooming: (e.target.value as GroomingFilter) || null })}
+        aria-label="Grooming status"
+        className={selectClass}
+      >
+        <option value="">Any grooming</option>
+        {(Object.keys(GROOMING_LABELS) as GroomingFilter[]).map((status) => (
+          <option key={status} value={status}>
+            {GROOMING_LABELS[status]}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-1 text-sm text-gray-400">
+        Quality
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={filters.qualityMin ?? ''}
+          onChange={(e) => onChange({ qualityMin: parseScore(e.target.value) })}
+          placeholder="0"
+          aria-label="Minimum quality score"
+          className="bg-gray-700 rounded px-2 py-1 w-16 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        –
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={filters.qualityMax ?? ''}
+          onChange={(e) => onChange({ qualityMax: parseScore(e.target.value) })}
+          placeholder="100"
+          aria-label="Maximum quality score"
+          className="bg-gray-700 rounded px-2 py-1 w-16 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <select
+        value={filters.estimate ?? ''}
+        onChange={(e) => onChange({ estimate: (e.target.value as EstimateFilter) || null })}
+        aria-label="Estimate"
+        className={selectClass}
+      >
+        <option value="">Any estimate</option>
+        <option value="set">Estimated</option>
+        <option value="unset">Not estimated</option>
+      </select>
+
+      {hasActiveFilters(filters) && (
+        <button
+          onClick={onClear}
+          className="flex items-center gap-1 px-2 py-1 rounded text-sm text-gray-400 hover:bg-gray-700 hover:text-gray-200 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
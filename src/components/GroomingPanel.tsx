@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { Ban, ExternalLink, Hand, Loader2, RotateCw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import clsx from 'clsx';
+import type { GroomingAttempt, GroomingStatus, Ticket } from '../types/ticket';
+import {
+  useCancelGrooming,
+  useGroomingAttempts,
+  useMarkGroomingManual,
+  useTriggerGrooming,
+} from '../hooks/useTickets';
+
+const STATUS_STYLES: Record<GroomingStatus, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-400',
+  'in-progress': 'bg-blue-500/20 text-blue-400',
+  complete: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+  manual: 'bg-purple-500/20 text-purple-400',
+};
+
+const SESSION_URL_TEMPLATE = import.meta.env.VITE_GROOMING_SESSION_URL;
+
+// Where to view a grooming session, when the deployment has a session viewer
+function sessionUrl(sessionKey: string): string | null {
+  return SESSION_URL_TEMPLATE ? SESSION_URL_TEMPLATE.replace('{sessionKey}', encodeURIComponent(sessionKey)) : null;
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
+
+function isRunning(status: GroomingStatus) {
+  return status === 'pending' || status === 'in-progress';
+}
+
+export function GroomingStatusPill({ status }: { status: GroomingStatus }) {
+  return <span className={clsx('px-2 py-0.5 rounded text-xs font-medium', STATUS_STYLES[status])}>{status}</span>;
+}
+
+function SessionLink({ sessionKey }: { sessionKey: string }) {
+  const url = sessionUrl(sessionKey);
+  if (!url) {
+    return <span className="font-mono text-gray-400">{sessionKey}</span>;
+  }
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noreferrer"
+      className="inline-flex items-center gap-1 font-mono text-blue-400 hover:text-blue-300"
+    >
+      {sessionKey}
+      <ExternalLink className="w-3 h-3" />
+    </a>
+  );
+}
+
+interface AttemptRowProps {
+  attempt: GroomingAttempt;
+  now: number;
+}
+
+function AttemptRow({ attempt, now }: AttemptRowProps) {
+  const started = Date.parse(attempt.startedAt);
+  const finished = attempt.finishedAt ? Date.parse(attempt.finishedAt) : now;
+
+  return (
+    <li className="py-1.5 space-y-0.5">
+      <div className="flex items-center gap-2 text-xs">
+        <span className="text-gray-500 w-6">#{attempt.attempt}</span>
+        <GroomingStatusPill status={attempt.status} />
+        <span className="text-gray-400" title={new Date(attempt.startedAt).toLocaleString()}>
+          {formatDistanceToNow(started, { addSuffix: true })}
+        </span>
+        <span className="text-gray-500">· {formatElapsed(finished - started)}</span>
+        <span className="text-gray-500">· {attempt.triggeredBy ?? 'automatic'}</span>
+        {attempt.sessionKey && (
+          <span className="ml-auto">
+            <SessionLink sessionKey={attempt.sessionKey} />
+          </span>
+        )}
+      </div>
+      {attempt.error && <p className="pl-8 text-xs text-red-400 break-words">{attempt.error}</p>}
+    </li>
+  );
+}
+
+interface GroomingPanelProps {
+  ticket: Ticket;
+  canEdit: boolean;
+}
+
+/**
+ * Grooming state of a ticket with every attempt so far, and controls to
+ * retry, cancel or take over grooming by hand
+ */
+export function GroomingPanel({ ticket, canEdit }: GroomingPanelProps) {
+  const grooming = ticket.grooming;
+  const { data: attempts, isLoading, error: attemptsError } = useGroomingAttempts(ticket.id, grooming);
+  const triggerGrooming = useTriggerGrooming();
+  const cancelGrooming = useCancelGrooming();
+  const markManual = useMarkGroomingManual();
+  const [now, setNow] = useState(() => Date.now());
+
+  const running = !!grooming && isRunning(grooming.status);
+
+  // Tick the elapsed time while grooming is underway
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  if (!grooming) return null;
+
+  const busy = triggerGrooming.isPending || cancelGrooming.isPending || markManual.isPending;
+  const actionError = triggerGrooming.error ?? cancelGrooming.error ?? markManual.error;
+
+  const started = grooming.triggeredAt ? Date.parse(grooming.triggeredAt) : null;
+  const finished = grooming.completedAt ? Date.parse(grooming.completedAt) : running ? now : null;
+
+  return (
+    <div className="bg-gray-700/50 rounded-lg p-3 mb-4 space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-gray-400">Grooming:</span>
+        <GroomingStatusPill status={grooming.status} />
+        {grooming.status === 'in-progress' && <Loader2 className="w-4 h-4 animate-spin text-blue-400" />}
+        {started != null && finished != null && (
+          <span className="text-xs text-gray-400" title="Elapsed time">
+            {formatElapsed(finished - started)}
+          </span>
+        )}
+        {grooming.attempts != null && grooming.attempts > 1 && (
+          <span className="text-xs text-gray-500">attempt {grooming.attempts}</span>
+        )}
+
+        {canEdit && (
+          <div className="flex gap-1.5 ml-auto">
+            {grooming.status === 'failed' && (
+              <button
+                onClick={() => triggerGrooming.mutate(ticket.id)}
+                disabled={busy}
+                className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50"
+              >
+                <RotateCw className="w-3 h-3" />
+                Retry
+              </button>
+            )}
+            {running && (
+              <button
+                onClick={() => cancelGrooming.mutate(ticket.id)}
+                disabled={busy}
+                className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-red-500/10 text-red-400 hover:bg-red-500/20 disabled:opacity-50"
+              >
+                <Ban className="w-3 h-3" />
+                Cancel
+              </button>
+            )}
+            {grooming.status !== 'manual' && (
+              <button
+                onClick={() => markManual.mutate(ticket.id)}
+                disabled={busy}
+                className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-purple-500/10 text-purple-400 hover:bg-purple-500/20 disabled:opacity-50"
+                title="Stop automatic grooming and groom this ticket by hand"
+              >
+                <Hand className="w-3 h-3" />
+                Mark manual
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {grooming.sessionKey && (
+        <p className="text-xs text-gray-400">
+          Session: <SessionLink sessionKey={grooming.sessionKey} />
+        </p>
+      )}
+      {grooming.lastError && <p className="text-xs text-red-400">{grooming.lastError}</p>}
+      {actionError && <p className="text-xs text-red-400">{actionError.message}</p>}
+
+      {/* Attempt history */}
+      <div className="border-t border-gray-600/50 pt-2">
+        <h4 className="text-xs text-gray-400 mb-1">Attempts</h4>
+        {isLoading ? (
+          <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+        ) : attemptsError ? (
+          <p className="text-xs text-red-400">Couldn't load attempts: {attemptsError.message}</p>
+        ) : attempts && attempts.length > 0 ? (
+          <ul className="divide-y divide-gray-600/40">
+            {[...attempts].reverse().map((attempt) => (
+              <AttemptRow key={attempt.attempt} attempt={attempt} now={now} />
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-gray-500">No attempts yet</p>
+        )}
+      </div>
+    </div>
+  );
+}
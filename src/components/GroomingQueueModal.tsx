@@ -0,0 +1,311 @@
+import { useMemo, useState } from 'react';
+import { Loader2, Pause, Play, Sparkles, X } from 'lucide-react';
+import clsx from 'clsx';
+import type { Ticket } from '../types/ticket';
+import { useTickets } from '../hooks/useTickets';
+import { useProjectWorkflow } from '../hooks/useWorkflows';
+import { useGroomingQueue } from '../hooks/useGroomingQueue';
+import { isGroomingQueueItemDone } from '../lib/groomingQueue';
+import type { GroomingQueueItem, GroomingQueueItemState } from '../lib/groomingQueue';
+import { findWorkflowStatus } from '../lib/workflow';
+import { useAuth } from '../contexts/AuthContext';
+import { GroomingStatusPill } from './GroomingPanel';
+
+const STATE_LABELS: Record<GroomingQueueItemState, string> = {
+  queued: 'Queued',
+  submitting: 'Starting',
+  grooming: 'Grooming',
+  finished: 'Finished',
+  failed: "Couldn't start",
+  cancelled: 'Cancelled',
+};
+
+const STATE_COLORS: Record<GroomingQueueItemState, string> = {
+  queued: 'text-gray-400',
+  submitting: 'text-blue-400',
+  grooming: 'text-blue-400',
+  finished: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+// Tickets without a finished grooming run (a failed run counts as ungroomed)
+function isUngroomed(ticket: Ticket) {
+  return !ticket.grooming || ticket.grooming.status === 'failed';
+}
+
+function isGrooming(ticket: Ticket) {
+  return ticket.grooming?.status === 'pending' || ticket.grooming?.status === 'in-progress';
+}
+
+interface QueueRowProps {
+  item: GroomingQueueItem;
+  ticket?: Ticket;
+  onCancel: () => void;
+}
+
+function QueueRow({ item, ticket, onCancel }: QueueRowProps) {
+  // The queue only knows its own part; the ticket shows how grooming is going
+  const grooming = item.state === 'grooming' || item.state === 'finished' ? ticket?.grooming : undefined;
+
+  return (
+    <li className="flex items-center gap-2 px-3 py-1.5 text-sm">
+      <span className="font-mono text-xs text-gray-400 shrink-0">{item.ticketId}</span>
+      <span className="truncate text-gray-200 flex-1">{ticket?.title}</span>
+      {item.state === 'submitting' && <Loader2 className="w-3 h-3 animate-spin text-blue-400" />}
+      {grooming ? (
+        <GroomingStatusPill status={grooming.status} />
+      ) : (
+        <span className={clsx('text-xs shrink-0', STATE_COLORS[item.state])} title={item.error}>
+          {STATE_LABELS[item.state]}
+        </span>
+      )}
+      {item.state === 'queued' && (
+        <button onClick={onCancel} className="p-0.5 rounded hover:bg-gray-700" title="Remove from queue">
+          <X className="w-3 h-3 text-gray-400" />
+        </button>
+      )}
+    </li>
+  );
+}
+
+interface GroomingQueueModalProps {
+  projects: string[];
+  defaultProject?: string | null;
+  onClose: () => void;
+}
+
+/**
+ * Pick backlog tickets to groom in bulk and follow the queue's progress
+ */
+export function GroomingQueueModal({ projects, defaultProject, onClose }: GroomingQueueModalProps) {
+  const { canEdit, canEditProject } = useAuth();
+  const { items, paused, concurrency, queue } = useGroomingQueue();
+  // Socket updates keep this list current, so it doubles as the progress source
+  const { data: tickets = [], isLoading } = useTickets();
+
+  const groomableProjects = useMemo(
+    () => (canEdit ? projects.filter((p) => canEditProject(p)) : []),
+    [canEdit, projects, canEditProject]
+  );
+  const [project, setProject] = useState(() =>
+    defaultProject && groomableProjects.includes(defaultProject) ? defaultProject : groomableProjects[0] ?? ''
+  );
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const workflow = useProjectWorkflow(project);
+
+  const ticketsById = useMemo(() => new Map(tickets.map((t) => [t.id, t])), [tickets]);
+
+  const queuedIds = useMemo(
+    () => new Set(items.filter((item) => !isGroomingQueueItemDone(item)).map((item) => item.ticketId)),
+    [items]
+  );
+
+  // The backlog is everything still in a to-do status of the project's workflow
+  const backlog = useMemo(
+    () =>
+      tickets.filter(
+        (t) =>
+          (t.project || 'Uncategorized') === project &&
+          (findWorkflowStatus(workflow, t.status)?.category ?? 'todo') === 'todo'
+      ),
+    [tickets, project, workflow]
+  );
+  const selectable = (ticket: Ticket) => !isGrooming(ticket) && !queuedIds.has(ticket.id);
+  const ungroomed = backlog.filter((t) => isUngroomed(t) && selectable(t));
+  const chosen = backlog.filter((t) => selected.has(t.id) && selectable(t));
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const handleSubmit = () => {
+    queue.enqueue(chosen.map((t) => t.id));
+    setSelected(new Set());
+  };
+
+  const done = items.filter(isGroomingQueueItemDone).length;
+  const remaining = items.filter((item) => item.state === 'queued').length;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-100">
+            <Sparkles className="w-5 h-5 text-purple-400" />
+            Backlog grooming
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {/* Choose tickets */}
+          <section>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <select
+                value={project}
+                onChange={(e) => {
+                  setProject(e.target.value);
+                  setSelected(new Set());
+                }}
+                className="bg-gray-700 rounded px-2 py-1 text-sm"
+                aria-label="Project"
+              >
+                {groomableProjects.map((p) => (
+                  <option key={p} value={p}>
+                    {p}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setSelected(new Set(ungroomed.map((t) => t.id)))}
+                disabled={ungroomed.length === 0}
+                className="px-2 py-1 rounded text-xs bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50"
+              >
+                Select all ungroomed ({ungroomed.length})
+              </button>
+              {selected.size > 0 && (
+                <button
+                  onClick={() => setSelected(new Set())}
+                  className="px-2 py-1 rounded text-xs text-gray-400 hover:bg-gray-700 hover:text-gray-200"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+
+            {isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+            ) : groomableProjects.length === 0 ? (
+              <p className="text-sm text-gray-500">You don't have edit access to any project.</p>
+            ) : backlog.length === 0 ? (
+              <p className="text-sm text-gray-500">No backlog tickets in {project}.</p>
+            ) : (
+              <ul className="max-h-64 overflow-y-auto bg-gray-900/40 rounded-lg divide-y divide-gray-700/60">
+                {backlog.map((ticket) => (
+                  <li key={ticket.id}>
+                    <label
+                      className={clsx(
+                        'flex items-center gap-2 px-3 py-1.5 text-sm',
+                        selectable(ticket) ? 'cursor-pointer hover:bg-gray-700/40' : 'opacity-60'
+                      )}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selected.has(ticket.id) && selectable(ticket)}
+                        disabled={!selectable(ticket)}
+                        onChange={() => toggle(ticket.id)}
+                      />
+                      <span className="font-mono text-xs text-gray-400 shrink-0">{ticket.id}</span>
+                      <span className="truncate text-gray-200 flex-1">{ticket.title}</span>
+                      {queuedIds.has(ticket.id) ? (
+                        <span className="text-xs text-gray-400">In queue</span>
+                      ) : (
+                        ticket.grooming && <GroomingStatusPill status={ticket.grooming.status} />
+                      )}
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex items-center justify-between gap-2 mt-3">
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                At most
+                <input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={concurrency}
+                  onChange={(e) => e.target.value && queue.setConcurrency(Number(e.target.value))}
+                  className="w-14 bg-gray-700 rounded px-2 py-1 text-sm text-gray-200"
+                />
+                at a time
+              </label>
+              <button
+                onClick={handleSubmit}
+                disabled={chosen.length === 0}
+                className="flex items-center gap-1 px-4 py-1.5 rounded bg-purple-600 hover:bg-purple-500 transition-colors text-sm disabled:opacity-50"
+              >
+                <Sparkles className="w-4 h-4" />
+                Groom {chosen.length || ''} {chosen.length === 1 ? 'ticket' : 'tickets'}
+              </button>
+            </div>
+          </section>
+
+          {/* Progress */}
+          {items.length > 0 && (
+            <section>
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <h3 className="text-sm font-semibold text-gray-200">
+                  {done} of {items.length} done
+                  {paused && <span className="ml-2 text-xs font-normal text-yellow-400">Paused</span>}
+                </h3>
+                <div className="flex gap-2">
+                  {remaining > 0 &&
+                    (paused ? (
+                      <button
+                        onClick={queue.resume}
+                        className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-gray-700 text-gray-200 hover:bg-gray-600"
+                      >
+                        <Play className="w-3 h-3" />
+                        Resume
+                      </button>
+                    ) : (
+                      <button
+                        onClick={queue.pause}
+                        className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-gray-700 text-gray-200 hover:bg-gray-600"
+                        title="Finish the tickets already grooming, but don't start more"
+                      >
+                        <Pause className="w-3 h-3" />
+                        Pause
+                      </button>
+                    ))}
+                  {remaining > 0 && (
+                    <button
+                      onClick={() => queue.cancel()}
+                      className="px-2 py-1 rounded text-xs bg-red-500/10 text-red-400 hover:bg-red-500/20"
+                    >
+                      Cancel remaining ({remaining})
+                    </button>
+                  )}
+                  {done > 0 && (
+                    <button
+                      onClick={queue.clearDone}
+                      className="px-2 py-1 rounded text-xs text-gray-400 hover:bg-gray-700 hover:text-gray-200"
+                    >
+                      Clear finished
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden mb-2">
+                <div
+                  className="h-full bg-purple-500 transition-all"
+                  style={{ width: `${(done / items.length) * 100}%` }}
+                />
+              </div>
+
+              <ul className="bg-gray-900/40 rounded-lg divide-y divide-gray-700/60">
+                {items.map((item) => (
+                  <QueueRow
+                    key={item.ticketId}
+                    item={item}
+                    ticket={ticketsById.get(item.ticketId)}
+                    onCancel={() => queue.cancel(item.ticketId)}
+                  />
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
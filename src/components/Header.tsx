@@ -1,7 +1,11 @@
-import { Rocket, RefreshCw, LogOut, Shield, Edit3, Eye, Users } from 'lucide-react';
+import { Rocket, RefreshCw, LogOut, Shield, Edit3, Eye, Users, Plus, SlidersHorizontal, LayoutDashboard, Sparkles, Loader2, ChartColumn, Timer } from 'lucide-react';
 import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../contexts/AuthContext';
 import type { UserRole } from '../contexts/AuthContext';
+import { ConnectionIndicator } from './ConnectionIndicator';
+import { SyncStatus } from './SyncStatus';
+import { useGroomingQueue } from '../hooks/useGroomingQueue';
+import { isGroomingQueueItemDone } from '../lib/groomingQueue';
 
 const ROLE_ICONS: Record<UserRole, typeof Shield> = {
   admin: Shield,
@@ -24,11 +28,28 @@ const ROLE_LABELS: Record<UserRole, string> = {
 interface HeaderProps {
   currentProject?: string | null;
   onManageMembers?: () => void;
+  onManageWorkflow?: () => void;
+  onOpenOverview?: () => void;
+  onOpenAnalytics?: () => void;
+  onOpenSprints?: () => void;
+  onNewTicket?: () => void;
+  onOpenGroomingQueue?: () => void;
 }
 
-export function Header({ currentProject, onManageMembers }: HeaderProps) {
+export function Header({
+  currentProject,
+  onManageMembers,
+  onManageWorkflow,
+  onOpenOverview,
+  onOpenAnalytics,
+  onOpenSprints,
+  onNewTicket,
+  onOpenGroomingQueue,
+}: HeaderProps) {
   const queryClient = useQueryClient();
   const { user, role, signOut, canManageProject, projects } = useAuth();
+  const { items: groomingItems } = useGroomingQueue();
+  const groomingLeft = groomingItems.filter((item) => !isGroomingQueueItemDone(item)).length;
 
   const handleRefresh = () => {
     queryClient.invalidateQueries({ queryKey: ['tickets'] });
@@ -43,6 +64,8 @@ export function Header({ currentProject, onManageMembers }: HeaderProps) {
   // Check if user can manage the current project
   const showManageMembers =
     currentProject && canManageProject(currentProject) && onManageMembers;
+  const showManageWorkflow =
+    currentProject && canManageProject(currentProject) && onManageWorkflow;
 
   return (
     <header className="bg-gray-800 border-b border-gray-700 px-6 py-4">
@@ -62,6 +85,12 @@ export function Header({ currentProject, onManageMembers }: HeaderProps) {
         </div>
 
         <div className="flex items-center gap-4">
+          {/* Realtime Connection */}
+          <ConnectionIndicator />
+
+          {/* Offline Changes */}
+          <SyncStatus />
+
           {/* User Info */}
           {user && (
             <div className="flex items-center gap-3">
@@ -81,6 +110,67 @@ export function Header({ currentProject, onManageMembers }: HeaderProps) {
             </div>
           )}
 
+          {/* New Ticket Button */}
+          {onNewTicket && (
+            <button
+              onClick={onNewTicket}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-700 transition-colors text-white text-sm"
+              title="Create a new ticket"
+            >
+              <Plus className="w-4 h-4" />
+              <span className="hidden sm:inline">New Ticket</span>
+            </button>
+          )}
+
+          {/* Backlog Grooming Button */}
+          {onOpenGroomingQueue && (
+            <button
+              onClick={onOpenGroomingQueue}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-purple-600/80 hover:bg-purple-600 transition-colors text-white text-sm"
+              title="Groom backlog tickets in bulk"
+            >
+              {groomingLeft > 0 ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+              <span className="hidden sm:inline">Groom</span>
+              {groomingLeft > 0 && <span className="text-xs bg-purple-900/60 px-1.5 rounded-full">{groomingLeft}</span>}
+            </button>
+          )}
+
+          {/* Project Overview Button */}
+          {currentProject && onOpenOverview && (
+            <button
+              onClick={onOpenOverview}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors text-white text-sm"
+              title={`${currentProject} overview`}
+            >
+              <LayoutDashboard className="w-4 h-4" />
+              <span className="hidden sm:inline">Overview</span>
+            </button>
+          )}
+
+          {/* Sprint Planning Button */}
+          {currentProject && onOpenSprints && (
+            <button
+              onClick={onOpenSprints}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors text-white text-sm"
+              title={`Plan ${currentProject} sprints`}
+            >
+              <Timer className="w-4 h-4" />
+              <span className="hidden sm:inline">Sprints</span>
+            </button>
+          )}
+
+          {/* Analytics Button */}
+          {onOpenAnalytics && (
+            <button
+              onClick={onOpenAnalytics}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors text-white text-sm"
+              title="Cycle time, throughput and cumulative flow"
+            >
+              <ChartColumn className="w-4 h-4" />
+              <span className="hidden sm:inline">Analytics</span>
+            </button>
+          )}
+
           {/* Manage Project Members Button */}
           {showManageMembers && (
             <button
@@ -93,6 +183,18 @@ export function Header({ currentProject, onManageMembers }: HeaderProps) {
             </button>
           )}
 
+          {/* Workflow Settings Button */}
+          {showManageWorkflow && (
+            <button
+              onClick={onManageWorkflow}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors text-white text-sm"
+              title={`Configure ${currentProject} workflow`}
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+              <span className="hidden sm:inline">Workflow</span>
+            </button>
+          )}
+
           {/* Refresh Button */}
           <button
             onClick={handleRefresh}
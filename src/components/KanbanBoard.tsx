@@ -1,117 +1,728 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef, useEffect } from 'react';
+import type { KeyboardEvent, MouseEvent } from 'react';
 import {
   DndContext,
   DragOverlay,
+  KeyboardSensor,
   PointerSensor,
   useSensor,
   useSensors,
-  closestCorners,
 } from '@dnd-kit/core';
-import type { DragEndEvent, DragStartEvent } from '@dnd-kit/core';
-import type { Ticket, TicketStatus } from '../types/ticket';
-import { STATUS_ORDER } from '../types/ticket';
+import type {
+  Active,
+  Announcements,
+  DragEndEvent,
+  DragMoveEvent,
+  DragStartEvent,
+  Over,
+  ScreenReaderInstructions,
+} from '@dnd-kit/core';
+import type { Ticket, TicketStatus, TicketUpdate } from '../types/ticket';
+import type { Workflow, WorkflowStatus } from '../types/workflow';
 import { Lane } from './Lane';
 import { TicketCard } from './TicketCard';
-import { useMoveTicket } from '../hooks/useTickets';
+import { BulkActionBar } from './BulkActionBar';
+import type { QuickAddOptions } from './QuickAddTicket';
+import { useQueryClient } from '@tanstack/react-query';
+import { useEntryRuleCheck, useMoveTicket, useReorderTicket, useUpdateTicket } from '../hooks/useTickets';
+import type { TransitionOptions } from '../hooks/useTickets';
+import { useEntryRuleOverride } from '../hooks/useWorkflows';
+import { projectMembersQuery } from '../hooks/useProjects';
+import { useBulkTicketActions } from '../hooks/useBulkTicketActions';
+import { useLassoSelection } from '../hooks/useLassoSelection';
+import { useAuth } from '../contexts/AuthContext';
+import { compareTicketRank, getTicketRank, planLaneRanks } from '../lib/rank';
+import type { LaneRankPlan } from '../lib/rank';
+import {
+  boardCollisionDetection,
+  createBoardKeyboardCoordinates,
+  findNeighbourLane,
+  laneKey,
+  resolveDropTarget,
+} from '../lib/dnd';
+import type { BoardLane, DropTarget } from '../lib/dnd';
+import { checkWipLimit, describeUnmetRules, findWorkflowStatus, getWipUsage } from '../lib/workflow';
+import { buildSwimlanes, SWIMLANE_LABELS, swimlaneUpdate } from '../lib/swimlanes';
+import { mergeBulkResults, summarizeBulkResult } from '../lib/bulkActions';
+import type { SwimlaneField } from '../lib/swimlanes';
+import { ChevronDown, ChevronRight, X } from 'lucide-react';
+import clsx from 'clsx';
 
 interface KanbanBoardProps {
   tickets: Ticket[];
+  // Tickets WIP limits are counted against, when the board shows a filtered subset
+  wipTickets?: Ticket[];
+  columns: WorkflowStatus[];
+  workflows: Record<string, Workflow>;
   onTicketClick: (ticket: Ticket) => void;
+  onAddTicket?: (status: TicketStatus) => void;
+  quickAdd?: QuickAddOptions;
+  // Split the board into rows by this field
+  swimlane?: SwimlaneField | null;
 }
 
-export function KanbanBoard({ tickets, onTicketClick }: KanbanBoardProps) {
+const screenReaderInstructions: ScreenReaderInstructions = {
+  draggable:
+    'To pick up a ticket, press Space or Enter on its drag handle. ' +
+    'While dragging, use the arrow keys to move it up and down or into another lane. ' +
+    'Press Space or Enter again to drop it, or Escape to cancel.',
+};
+
+export function KanbanBoard({
+  tickets,
+  wipTickets = tickets,
+  columns,
+  workflows,
+  onTicketClick,
+  onAddTicket,
+  quickAdd,
+  swimlane,
+}: KanbanBoardProps) {
   const [activeId, setActiveId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  // Explains why the last move was refused
+  const [notice, setNotice] = useState<string | null>(null);
+  // Collapsed swimlane rows, as `${field}/${key}`
+  const [collapsedRows, setCollapsedRows] = useState<Set<string>>(() => new Set());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  // Where a Shift-click range starts
+  const selectionAnchorRef = useRef<string | null>(null);
+  const queryClient = useQueryClient();
+  const { canEdit, canEditProject } = useAuth();
+  const reorderTicket = useReorderTicket();
   const moveTicket = useMoveTicket();
+  const updateTicket = useUpdateTicket();
+  const checkEntryRules = useEntryRuleCheck();
+  const resolveRuleOverride = useEntryRuleOverride();
+  const boardRef = useRef<HTMLDivElement>(null);
+  // Card to re-focus once it re-renders in its new lane
+  const pendingFocusRef = useRef<string | null>(null);
+
+  // Project rows list every project on the board so tickets can be moved into empty ones
+  const rows = useMemo(
+    () => (swimlane ? buildSwimlanes(tickets, swimlane, Object.keys(workflows)) : null),
+    [tickets, swimlane, workflows]
+  );
+
+  // Every lane in row-major order, which the keyboard getter relies on
+  const lanes = useMemo(() => {
+    const groups: Array<{ key?: string; tickets: Ticket[] }> = rows ?? [{ tickets }];
+    return groups.flatMap(group =>
+      columns.map((column): BoardLane => ({
+        key: laneKey(column.id, group.key),
+        status: column.id,
+        row: group.key,
+        // Sort by manual rank; unranked tickets fall back to most recently updated first
+        tickets: group.tickets.filter(t => t.status === column.id).sort(compareTicketRank),
+      }))
+    );
+  }, [rows, tickets, columns]);
+
+  const rowId = (row: string) => `${swimlane}/${row}`;
+
+  // Collapsed rows aren't rendered, so drags and focus skip them
+  const visibleLanes = useMemo(
+    () => lanes.filter(lane => lane.row === undefined || !collapsedRows.has(`${swimlane}/${lane.row}`)),
+    [lanes, collapsedRows, swimlane]
+  );
+
+  // Cards in reading order, for Shift-click ranges and to keep a dragged selection in order
+  const visibleTickets = useMemo(() => visibleLanes.flatMap(lane => lane.tickets), [visibleLanes]);
+
+  // Selected cards that are still on the board
+  const selectedTickets = useMemo(
+    () => visibleTickets.filter(t => selectedIds.has(t.id)),
+    [visibleTickets, selectedIds]
+  );
+
+  const boardProjects = useMemo(() => Object.keys(workflows), [workflows]);
+
+  const assignees = useMemo(
+    () => [...new Set(tickets.flatMap(t => (t.assignee ? [t.assignee] : [])))].sort(),
+    [tickets]
+  );
+
+  // Per lane: whether any applicable project is over its limit, plus the usage
+  // to display when the lane covers exactly one project's limit
+  const laneWip = useMemo(() => {
+    const result: Record<string, { count?: number; limit?: number; over: boolean }> = {};
+    lanes.forEach(lane => {
+      // A project row only answers to that project's limits
+      const applicable =
+        swimlane === 'project' && lane.row !== undefined
+          ? [workflows[lane.row]].filter(Boolean)
+          : Object.values(workflows);
+      const usages = applicable
+        .map(workflow => getWipUsage(wipTickets, workflow, lane.status))
+        .filter(usage => usage !== null);
+      if (usages.length === 0) return;
+      // Rows by assignee or priority only hold part of a project's tickets
+      const showUsage = usages.length === 1 && (lane.row === undefined || swimlane === 'project');
+      result[lane.key] = {
+        ...(showUsage && usages[0]),
+        over: usages.some(usage => usage.count > usage.limit),
+      };
+    });
+    return result;
+  }, [wipTickets, lanes, workflows, swimlane]);
+
+  const keyboardCoordinates = useMemo(
+    () => createBoardKeyboardCoordinates(visibleLanes),
+    [visibleLanes]
+  );
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
       activationConstraint: {
         distance: 8,
       },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: keyboardCoordinates,
     })
   );
 
-  const ticketsByStatus = useMemo(() => {
-    const grouped: Record<TicketStatus, Ticket[]> = {
-      'backlog': [],
-      'todo': [],
-      'in-progress': [],
-      'done': [],
-    };
-
-    tickets.forEach(ticket => {
-      const status = ticket.status as TicketStatus;
-      if (grouped[status]) {
-        grouped[status].push(ticket);
-      } else {
-        grouped['backlog'].push(ticket);
+  useEffect(() => {
+    if (pendingFocusRef.current) {
+      const card = boardRef.current?.querySelector<HTMLElement>(
+        `[data-ticket-id="${CSS.escape(pendingFocusRef.current)}"]`
+      );
+      if (card) {
+        card.focus();
+        pendingFocusRef.current = null;
       }
-    });
-
-    // Sort by updatedAt descending (most recently updated first)
-    // Falls back to createdAt if updatedAt is missing
-    Object.keys(grouped).forEach(status => {
-      grouped[status as TicketStatus].sort((a, b) => {
-        const aTime = new Date(a.updatedAt || a.createdAt).getTime();
-        const bTime = new Date(b.updatedAt || b.createdAt).getTime();
-        return bTime - aTime; // Descending (newest first)
-      });
-    });
-
-    return grouped;
-  }, [tickets]);
+    }
+  }, [lanes]);
 
   const activeTicket = useMemo(
     () => tickets.find(t => t.id === activeId),
     [activeId, tickets]
   );
 
+  // Dragging a selected card carries the whole selection along
+  const draggedGroup =
+    activeId && selectedIds.has(activeId) && selectedTickets.length > 1 ? selectedTickets : null;
+
+  const bulk = useBulkTicketActions({ workflows, wipTickets, labelOf, onError: setNotice });
+
+  const lasso = useLassoSelection(
+    boardRef,
+    (ids, additive) => setSelectedIds(additive ? new Set([...selectedIds, ...ids]) : new Set(ids)),
+    () => setSelectedIds(new Set())
+  );
+
+  function clearSelection() {
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  }
+
+  /**
+   * Cmd/Ctrl-click toggles a card in the selection, Shift-click selects the
+   * range from the last one, and a plain click opens the ticket
+   */
+  function handleCardClick(ticket: Ticket, event: MouseEvent) {
+    if (event.metaKey || event.ctrlKey) {
+      const next = new Set(selectedIds);
+      if (next.has(ticket.id)) next.delete(ticket.id);
+      else next.add(ticket.id);
+      setSelectedIds(next);
+      selectionAnchorRef.current = ticket.id;
+      return;
+    }
+
+    if (event.shiftKey) {
+      const anchor = visibleTickets.findIndex(t => t.id === selectionAnchorRef.current);
+      const index = visibleTickets.findIndex(t => t.id === ticket.id);
+      const range = anchor === -1 ? [ticket] : visibleTickets.slice(Math.min(anchor, index), Math.max(anchor, index) + 1);
+      setSelectedIds(new Set([...selectedIds, ...range.map(t => t.id)]));
+      if (anchor === -1) selectionAnchorRef.current = ticket.id;
+      return;
+    }
+
+    clearSelection();
+    onTicketClick(ticket);
+  }
+
+  function findLaneOf(ticketId: string): BoardLane | undefined {
+    return visibleLanes.find(lane => lane.tickets.some(t => t.id === ticketId));
+  }
+
+  function labelOf(status: TicketStatus) {
+    return columns.find(c => c.id === status)?.label ?? status;
+  }
+
+  function describeLane(lane: { status: TicketStatus; row?: string }) {
+    const row = rows?.find(r => r.key === lane.row);
+    return row ? `${labelOf(lane.status)} in ${row.label}` : labelOf(lane.status);
+  }
+
+  /**
+   * A ticket can only move into statuses its own project's workflow defines
+   */
+  function checkMove(ticket: Ticket, status: TicketStatus): string | null {
+    const workflow = workflows[ticket.project];
+    if (workflow && !findWorkflowStatus(workflow, status)) {
+      return `${ticket.project} has no "${labelOf(status)}" status, so ${ticket.id} can't move there.`;
+    }
+    return null;
+  }
+
+  // Cards can be dragged whatever the user's access, so moves check it here
+  function checkEditAccess(ticket: Ticket): string | null {
+    if (canEdit && canEditProject(ticket.project)) return null;
+    return `You need Member access to ${ticket.project} to move ${ticket.id}.`;
+  }
+
+  /**
+   * Apply the project's WIP policy to a move into another lane: blocked moves
+   * explain themselves in the notice, warned ones ask for confirmation
+   */
+  function allowWip(ticket: Ticket, status: TicketStatus, project = ticket.project): boolean {
+    const workflow = workflows[project];
+    const usage = workflow && checkWipLimit(wipTickets, workflow, ticket, status);
+    if (!usage) return true;
+
+    const message = `${labelOf(status)} would have ${usage.count} ${project} tickets, over its WIP limit of ${usage.limit}.`;
+    if (workflow.wipPolicy === 'block') {
+      setNotice(`${message} Finish something there before moving ${ticket.id} in.`);
+      return false;
+    }
+    return window.confirm(`${message} Move ${ticket.id} anyway?`);
+  }
+
+  /**
+   * Check a move against the target status's entry rules, letting a project
+   * owner override them. Returns the options to send the move with, or null
+   * when it can't go ahead and the notice says why.
+   */
+  function allowEntryRules(ticket: Ticket, status: TicketStatus, asMoved?: TicketUpdate): TransitionOptions | null {
+    const unmet = checkEntryRules(ticket.id, status, asMoved);
+    if (unmet.length === 0) return { asMoved };
+    const { override, notice } = resolveRuleOverride(
+      asMoved?.project ?? ticket.project,
+      describeUnmetRules(ticket, labelOf(status), unmet)
+    );
+    setNotice(notice);
+    return override ? { asMoved, overrideRules: true } : null;
+  }
+
+  function findCardElement(ticketId: string) {
+    return boardRef.current?.querySelector<HTMLElement>(`[data-ticket-id="${CSS.escape(ticketId)}"]`);
+  }
+
+  function focusLane(lane: BoardLane, index: number) {
+    if (lane.tickets.length === 0) {
+      boardRef.current?.querySelector<HTMLElement>(`[data-lane-key="${CSS.escape(lane.key)}"]`)?.focus();
+      return;
+    }
+    findCardElement(lane.tickets[Math.max(0, Math.min(index, lane.tickets.length - 1))].id)?.focus();
+  }
+
+  function describeTicket(active: Active) {
+    const ticket = tickets.find(t => t.id === active.id);
+    return ticket ? `ticket ${ticket.id}, ${ticket.title}` : `ticket ${active.id}`;
+  }
+
+  function describeTarget(active: Active, over: Over | null) {
+    const target = resolveDropTarget(active, over, visibleLanes);
+    const lane = visibleLanes.find(l => l.key === target?.key);
+    if (!target || !lane) return 'no lane';
+    const laneSize = lane.tickets.filter(t => t.id !== active.id).length + 1;
+    return `${describeLane(target)}, position ${target.index + 1} of ${laneSize}`;
+  }
+
+  const announcements: Announcements = {
+    onDragStart: ({ active }) => {
+      const lane = findLaneOf(active.id as string);
+      const group = selectedIds.has(active.id as string) && selectedTickets.length > 1;
+      const others = group ? ` and ${selectedTickets.length - 1} other selected tickets` : '';
+      return `Picked up ${describeTicket(active)}${others} in ${lane ? describeLane(lane) : 'the board'}.`;
+    },
+    onDragOver: ({ active, over }) =>
+      over ? `${describeTicket(active)} is over ${describeTarget(active, over)}.` : undefined,
+    onDragEnd: ({ active, over }) =>
+      over
+        ? `Dropped ${describeTicket(active)} in ${describeTarget(active, over)}.`
+        : `Dropped ${describeTicket(active)} outside the board. It was not moved.`,
+    onDragCancel: ({ active }) => `Cancelled moving ${describeTicket(active)}. It was not moved.`,
+  };
+
+  /**
+   * Arrow keys move focus between cards, lanes and rows, Enter opens the
+   * focused card and Shift+Left/Right moves it one lane over
+   */
+  function handleBoardKeyDown(event: KeyboardEvent<HTMLDivElement>) {
+    // dnd-kit owns the arrow keys while a card is being dragged
+    if (activeId) return;
+
+    if (event.key === 'Escape' && selectedIds.size > 0) {
+      clearSelection();
+      event.preventDefault();
+      return;
+    }
+
+    const element = event.target as HTMLElement;
+    const ticketId = element.dataset.ticketId;
+    const lane = ticketId
+      ? findLaneOf(ticketId)
+      : visibleLanes.find(l => l.key === element.dataset.laneKey);
+    if (!lane) return;
+
+    const index = ticketId ? lane.tickets.findIndex(t => t.id === ticketId) : -1;
+
+    switch (event.key) {
+      case 'ArrowUp': {
+        if (index > 0) {
+          focusLane(lane, index - 1);
+          break;
+        }
+        const above = findNeighbourLane(visibleLanes, lane, 'up');
+        if (above) focusLane(above, above.tickets.length - 1);
+        break;
+      }
+      case 'ArrowDown': {
+        if (index < lane.tickets.length - 1) {
+          focusLane(lane, index + 1);
+          break;
+        }
+        const below = findNeighbourLane(visibleLanes, lane, 'down');
+        if (below) focusLane(below, 0);
+        break;
+      }
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const next = findNeighbourLane(visibleLanes, lane, event.key === 'ArrowLeft' ? 'left' : 'right');
+        if (!next) break;
+        if (event.shiftKey && ticketId) {
+          const ticket = lane.tickets[index];
+          const problem = checkEditAccess(ticket) ?? checkMove(ticket, next.status);
+          setNotice(problem);
+          if (problem) break;
+          const options = allowEntryRules(ticket, next.status);
+          if (!options || !allowWip(ticket, next.status)) break;
+          pendingFocusRef.current = ticketId;
+          moveTicket(ticketId, next.status, options);
+        } else {
+          focusLane(next, Math.max(index, 0));
+        }
+        break;
+      }
+      case 'Enter':
+      case ' ': {
+        const ticket = lane.tickets[index];
+        if (!ticket) return;
+        onTicketClick(ticket);
+        break;
+      }
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
   function handleDragStart(event: DragStartEvent) {
     setActiveId(event.active.id as string);
   }
 
+  function handleDragMove(event: DragMoveEvent) {
+    const target = resolveDropTarget(event.active, event.over, visibleLanes);
+    // Only re-render when the landing spot actually changes
+    setDropTarget(prev =>
+      prev?.key === target?.key && prev?.index === target?.index ? prev : target
+    );
+  }
+
+  function handleDragCancel() {
+    setActiveId(null);
+    setDropTarget(null);
+  }
+
   function handleDragEnd(event: DragEndEvent) {
     const { active, over } = event;
     setActiveId(null);
+    setDropTarget(null);
 
-    if (!over) return;
+    const target = resolveDropTarget(active, over, visibleLanes);
+    if (!target) return;
 
     const ticketId = active.id as string;
-    const overId = over.id as string;
-
-    // Check if dropped on a lane
-    if (STATUS_ORDER.includes(overId as TicketStatus)) {
-      const newStatus = overId as TicketStatus;
-      const ticket = tickets.find(t => t.id === ticketId);
-      
-      if (ticket && ticket.status !== newStatus) {
-        moveTicket(ticketId, newStatus);
+    const source = findLaneOf(ticketId);
+    if (!source) return;
+
+    // Nothing to do if the card ends up where it started
+    const fromIndex = source.tickets.findIndex(t => t.id === ticketId);
+    if (source.key === target.key && target.index === fromIndex) return;
+
+    if (draggedGroup) {
+      void moveGroup(draggedGroup, ticketId, target);
+      return;
+    }
+
+    // The lane may have been filtered out while the card was in the air
+    const lane = visibleLanes.find(l => l.key === target.key);
+    if (!lane) return;
+
+    const ticket = source.tickets[fromIndex];
+    const plan = planLaneRanks(lane.tickets.filter(t => t.id !== ticketId), target.index, [ticketId]);
+
+    if (swimlane && target.row !== undefined && source.row !== target.row) {
+      void moveToRow(ticket, target.status, target.row, plan, swimlane);
+      return;
+    }
+
+    const problem =
+      checkEditAccess(ticket) ?? (source.status === target.status ? null : checkMove(ticket, target.status));
+    setNotice(problem);
+    if (problem) return;
+    const options = allowEntryRules(ticket, target.status);
+    if (!options || !allowWip(ticket, target.status)) return;
+
+    reorderTicket(ticketId, target.status, plan.ranks[0], { ...options, laneOrder: plan.laneOrder });
+  }
+
+  /**
+   * Drop a whole selection at the target, in board order. Tickets the user
+   * can't change, or that can't go there, stay put and are listed in the notice.
+   */
+  async function moveGroup(group: Ticket[], activeTicketId: string, target: DropTarget) {
+    const lane = visibleLanes.find(l => l.key === target.key);
+    if (!lane) return;
+
+    const groupIds = new Set(group.map(t => t.id));
+    // The target index counts the lane without the dragged card; skip past other selected cards
+    const laneTickets = lane.tickets.filter(t => t.id !== activeTicketId);
+    const position = {
+      lane: laneTickets.filter(t => !groupIds.has(t.id)),
+      index: laneTickets.slice(0, target.index).filter(t => !groupIds.has(t.id)).length,
+    };
+
+    const { row } = target;
+    const rowOf = (ticket: Ticket) => findLaneOf(ticket.id)?.row;
+    if (!swimlane || row === undefined || group.every(t => rowOf(t) === row)) {
+      setNotice(summarizeBulkResult('Moved', bulk.move(group, target.status, position)));
+      return;
+    }
+
+    // Queue the row's field change, then the move; tickets whose change is refused go back
+    const change = swimlaneUpdate(swimlane, row);
+    const updated = await bulk.update(group, change);
+    const moved = bulk.move(updated.done, target.status, position, change);
+    setNotice(summarizeBulkResult('Moved', mergeBulkResults(updated, moved)));
+    void updated.synced.then(synced => moved.done.filter(t => !synced.has(t.id)).forEach(moveBack));
+  }
+
+  /**
+   * Dropping into another swimlane row changes the row's field as well as the
+   * status and position
+   */
+  async function moveToRow(
+    ticket: Ticket,
+    status: TicketStatus,
+    row: string,
+    plan: LaneRankPlan,
+    field: SwimlaneField
+  ) {
+    const update = swimlaneUpdate(field, row);
+    const project = update.project ?? ticket.project;
+    setNotice(null);
+
+    if (!canEdit || !canEditProject(ticket.project) || !canEditProject(project)) {
+      setNotice(
+        project === ticket.project
+          ? `You need Member access to ${project} to change ${ticket.id}.`
+          : `You need Member access to both ${ticket.project} and ${project} to move ${ticket.id}.`
+      );
+      return;
+    }
+
+    const problem = checkMove({ ...ticket, project }, status);
+    if (problem) {
+      setNotice(problem);
+      return;
+    }
+    if (!allowWip(ticket, status, project)) return;
+
+    // Assignees must belong to the ticket's (new) project
+    const assignee = update.assignee !== undefined ? update.assignee : ticket.assignee;
+    if (assignee) {
+      try {
+        const members = await queryClient.fetchQuery(projectMembersQuery(project));
+        if (!members.some(m => m.email === assignee)) {
+          if (field === 'assignee') {
+            setNotice(`${assignee} isn't a member of ${project}, so ${ticket.id} can't be assigned to them.`);
+            return;
+          }
+          // Moving projects drops an assignee who isn't part of the target
+          update.assignee = null;
+        }
+      } catch (err) {
+        setNotice(err instanceof Error ? err.message : `Failed to load ${project} members`);
+        return;
       }
     }
+
+    const options = allowEntryRules(ticket, status, update);
+    if (!options) return;
+
+    // Both are queued now and sent in order; a refused field change puts the ticket back
+    updateTicket.mutateAsync({ id: ticket.id, update }).catch(err => {
+      setNotice(err instanceof Error ? err.message : `Failed to change ${SWIMLANE_LABELS[field].toLowerCase()}`);
+      moveBack(ticket);
+    });
+    reorderTicket(ticket.id, status, plan.ranks[0], { ...options, laneOrder: plan.laneOrder });
+  }
+
+  // Undo a move whose row change the server refused
+  function moveBack(ticket: Ticket) {
+    reorderTicket(ticket.id, ticket.status, getTicketRank(ticket));
+  }
+
+  // Translate the drop target into "insert before this card" for the lane
+  function dropIndicatorFor(lane: BoardLane) {
+    if (!dropTarget || dropTarget.key !== lane.key) return undefined;
+    // Hide it while the card hovers its own slot
+    if (lane.tickets.findIndex(t => t.id === activeId) === dropTarget.index) {
+      return undefined;
+    }
+    const targetLane = lane.tickets.filter(t => t.id !== activeId);
+    return { beforeId: targetLane[dropTarget.index]?.id ?? null };
+  }
+
+  function toggleRow(row: string) {
+    setCollapsedRows(prev => {
+      const next = new Set(prev);
+      if (next.has(rowId(row))) {
+        next.delete(rowId(row));
+      } else {
+        next.add(rowId(row));
+      }
+      return next;
+    });
+  }
+
+  function renderLane(lane: BoardLane) {
+    // Quick add can only fill in the row's field when rows are projects
+    const laneQuickAdd =
+      quickAdd && lane.row !== undefined
+        ? swimlane === 'project'
+          ? { ...quickAdd, defaultProject: lane.row }
+          : undefined
+        : quickAdd;
+
+    const column = columns.find(c => c.id === lane.status);
+    if (!column) return null;
+
+    return (
+      <Lane
+        key={lane.key}
+        column={column}
+        row={lane.row}
+        tickets={lane.tickets}
+        onTicketClick={handleCardClick}
+        selectedIds={selectedIds}
+        onAddTicket={onAddTicket}
+        quickAdd={laneQuickAdd}
+        dropIndicator={dropIndicatorFor(lane)}
+        wip={laneWip[lane.key]}
+        compact={lane.row !== undefined}
+      />
+    );
   }
 
   return (
     <DndContext
       sensors={sensors}
-      collisionDetection={closestCorners}
+      collisionDetection={boardCollisionDetection}
       onDragStart={handleDragStart}
+      onDragMove={handleDragMove}
       onDragEnd={handleDragEnd}
+      onDragCancel={handleDragCancel}
+      accessibility={{ announcements, screenReaderInstructions }}
     >
-      <div className="flex gap-4 overflow-x-auto pb-4 h-full">
-        {STATUS_ORDER.map(status => (
-          <Lane
-            key={status}
-            status={status}
-            tickets={ticketsByStatus[status]}
-            onTicketClick={onTicketClick}
-          />
-        ))}
+      <div className="flex flex-col h-full">
+        {notice && (
+          <div className="flex items-center justify-between gap-2 mb-3 px-3 py-2 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">
+            <span role="alert">{notice}</span>
+            <button
+              onClick={() => setNotice(null)}
+              className="p-1 rounded hover:bg-red-500/20"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        <div
+          ref={boardRef}
+          onKeyDown={handleBoardKeyDown}
+          onPointerDown={lasso.onPointerDown}
+          className={clsx(
+            'flex-1 min-h-0 overflow-x-auto pb-4 select-none',
+            rows ? 'overflow-y-auto' : 'flex gap-4'
+          )}
+        >
+          {rows
+            ? rows.map(row => {
+                const collapsed = collapsedRows.has(rowId(row.key));
+                return (
+                  <section key={row.key} className="mb-4 min-w-max">
+                    <button
+                      onClick={() => toggleRow(row.key)}
+                      aria-expanded={!collapsed}
+                      className="flex items-center gap-2 mb-2 px-1 text-sm font-semibold text-gray-300 hover:text-white"
+                    >
+                      {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                      {row.label}
+                      <span className="bg-gray-700 text-gray-400 text-xs font-normal px-2 py-0.5 rounded-full">
+                        {row.tickets.length}
+                      </span>
+                    </button>
+                    {!collapsed && (
+                      <div className="flex gap-4">
+                        {lanes.filter(lane => lane.row === row.key).map(renderLane)}
+                      </div>
+                    )}
+                  </section>
+                );
+              })
+            : lanes.map(renderLane)}
+        </div>
       </div>
 
+      {lasso.rect && (
+        <div
+          className="fixed z-30 border border-blue-400 bg-blue-500/10 pointer-events-none"
+          style={lasso.rect}
+        />
+      )}
+
+      {selectedTickets.length > 0 && !activeId && (
+        <BulkActionBar
+          tickets={selectedTickets}
+          columns={columns}
+          projects={boardProjects}
+          assignees={assignees}
+          actions={bulk}
+          onResult={setNotice}
+          onClear={clearSelection}
+        />
+      )}
+
       <DragOverlay>
         {activeTicket ? (
-          <div className="rotate-3 opacity-90">
-            <TicketCard ticket={activeTicket} onClick={() => {}} />
+          <div className="relative rotate-3 opacity-90">
+            {draggedGroup && (
+              <>
+                <div className="absolute inset-0 translate-x-2 translate-y-2 rounded-lg bg-gray-700 border border-gray-600" />
+                <span className="absolute -top-2 -right-2 z-10 bg-blue-600 text-white text-xs font-semibold px-2 py-0.5 rounded-full">
+                  {draggedGroup.length}
+                </span>
+              </>
+            )}
+            <div className="relative">
+              <TicketCard ticket={activeTicket} onClick={() => {}} selected={!!draggedGroup} />
+            </div>
           </div>
         ) : null}
       </DragOverlay>
@@ -1,26 +1,61 @@
+import { Fragment } from 'react';
+import type { MouseEvent } from 'react';
 import { useDroppable } from '@dnd-kit/core';
-import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { SortableContext } from '@dnd-kit/sortable';
+import type { SortingStrategy } from '@dnd-kit/sortable';
 import type { Ticket, TicketStatus } from '../types/ticket';
-import { STATUS_LABELS } from '../types/ticket';
+import type { WorkflowStatus } from '../types/workflow';
+import { WORKFLOW_LANE_COLORS } from '../types/workflow';
+import type { BoardDroppableData } from '../lib/dnd';
+import { laneKey } from '../lib/dnd';
 import { TicketCard } from './TicketCard';
+import { QuickAddTicket } from './QuickAddTicket';
+import type { QuickAddOptions } from './QuickAddTicket';
+import { Plus, CheckCircle } from 'lucide-react';
 import clsx from 'clsx';
 
 interface LaneProps {
-  status: TicketStatus;
+  column: WorkflowStatus;
+  // Swimlane row this lane sits in, if the board is split into rows
+  row?: string;
   tickets: Ticket[];
-  onTicketClick: (ticket: Ticket) => void;
+  onTicketClick: (ticket: Ticket, event: MouseEvent) => void;
+  selectedIds?: ReadonlySet<string>;
+  onAddTicket?: (status: TicketStatus) => void;
+  quickAdd?: QuickAddOptions;
+  // Where a dragged card would land: before a ticket, or at the end when null
+  dropIndicator?: { beforeId: string | null };
+  // WIP usage shown instead of the card count when a single limit applies;
+  // over is set when any project exceeds its limit here
+  wip?: { count?: number; limit?: number; over: boolean };
+  // Shorter empty lanes for swimlane rows
+  compact?: boolean;
 }
 
-const LANE_COLORS: Record<TicketStatus, string> = {
-  'backlog': 'border-t-gray-500',
-  'todo': 'border-t-blue-500',
-  'in-progress': 'border-t-yellow-500',
-  'done': 'border-t-green-500',
-};
+// Cards stay put while dragging; the drop indicator shows where one will land
+const staticSortingStrategy: SortingStrategy = () => null;
 
-export function Lane({ status, tickets, onTicketClick }: LaneProps) {
+function DropIndicator() {
+  return <div className="h-0.5 -my-1 rounded-full bg-blue-500 shadow-[0_0_6px] shadow-blue-500" />;
+}
+
+export function Lane({
+  column,
+  row,
+  tickets,
+  onTicketClick,
+  selectedIds,
+  onAddTicket,
+  quickAdd,
+  dropIndicator,
+  wip,
+  compact,
+}: LaneProps) {
+  const status = column.id;
+  const key = laneKey(status, row);
   const { setNodeRef, isOver } = useDroppable({
-    id: status,
+    id: key,
+    data: { type: 'lane', status, row } satisfies BoardDroppableData,
   });
 
   const ticketIds = tickets.map(t => t.id);
@@ -30,39 +65,80 @@ export function Lane({ status, tickets, onTicketClick }: LaneProps) {
       className={clsx(
         'lane bg-gray-850 rounded-lg border-t-4 min-w-[280px] max-w-[320px] flex flex-col',
         'bg-gray-800/50',
-        LANE_COLORS[status],
-        isOver && 'ring-2 ring-blue-500 ring-opacity-50'
+        WORKFLOW_LANE_COLORS[column.color] ?? WORKFLOW_LANE_COLORS.gray,
+        (isOver || dropIndicator) && 'ring-2 ring-blue-500 ring-opacity-50'
       )}
     >
       <div className="p-3 border-b border-gray-700">
         <div className="flex items-center justify-between">
-          <h3 className="font-semibold text-gray-200">{STATUS_LABELS[status]}</h3>
-          <span className="bg-gray-700 text-gray-300 text-xs px-2 py-1 rounded-full">
-            {tickets.length}
-          </span>
+          <h3 className="flex items-center gap-1.5 font-semibold text-gray-200">
+            {column.label}
+            {column.category === 'done' && (
+              <span title="Done category">
+                <CheckCircle className="w-3.5 h-3.5 text-gray-500" />
+              </span>
+            )}
+          </h3>
+          <div className="flex items-center gap-1">
+            {onAddTicket && (
+              <button
+                onClick={() => onAddTicket(status)}
+                className="p-1 rounded hover:bg-gray-700 text-gray-400 hover:text-gray-200 transition-colors"
+                title={`New ticket in ${column.label}`}
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            )}
+            <span
+              className={clsx(
+                'text-xs px-2 py-1 rounded-full',
+                wip?.over ? 'bg-red-500/20 text-red-400' : 'bg-gray-700 text-gray-300'
+              )}
+              title={wip?.over ? 'Over WIP limit' : wip?.limit !== undefined ? 'WIP limit' : undefined}
+            >
+              {wip?.limit !== undefined ? `${wip.count} / ${wip.limit}` : tickets.length}
+            </span>
+          </div>
         </div>
       </div>
       
       <div
         ref={setNodeRef}
-        className="lane-content flex-1 overflow-y-auto p-2 space-y-2 min-h-[200px]"
+        data-lane-key={key}
+        tabIndex={-1}
+        role="list"
+        aria-label={`${column.label}, ${tickets.length} ticket${tickets.length !== 1 ? 's' : ''}`}
+        className={clsx(
+          'lane-content flex-1 overflow-y-auto p-2 space-y-2 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400',
+          compact ? 'min-h-[80px]' : 'min-h-[200px]'
+        )}
       >
-        <SortableContext items={ticketIds} strategy={verticalListSortingStrategy}>
+        <SortableContext id={key} items={ticketIds} strategy={staticSortingStrategy}>
           {tickets.map(ticket => (
-            <TicketCard
-              key={ticket.id}
-              ticket={ticket}
-              onClick={onTicketClick}
-            />
+            <Fragment key={ticket.id}>
+              {dropIndicator?.beforeId === ticket.id && <DropIndicator />}
+              <TicketCard
+                ticket={ticket}
+                onClick={onTicketClick}
+                selected={selectedIds?.has(ticket.id)}
+              />
+            </Fragment>
           ))}
         </SortableContext>
+        {dropIndicator?.beforeId === null && <DropIndicator />}
         
-        {tickets.length === 0 && (
-          <div className="text-center text-gray-500 text-sm py-8">
+        {tickets.length === 0 && !dropIndicator && (
+          <div className={clsx('text-center text-gray-500 text-sm', compact ? 'py-4' : 'py-8')}>
             No tickets
           </div>
         )}
       </div>
+
+      {quickAdd && (
+        <div className="p-2 border-t border-gray-700">
+          <QuickAddTicket status={status} {...quickAdd} />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,52 @@
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeHighlight from 'rehype-highlight';
+import clsx from 'clsx';
+import 'highlight.js/styles/github-dark.css';
+
+interface MarkdownBodyProps {
+  source: string;
+  emptyText?: string;
+  className?: string;
+}
+
+/**
+ * Renders ticket markdown with GFM, sanitization and code highlighting
+ */
+export function MarkdownBody({ source, emptyText = 'No description provided', className }: MarkdownBodyProps) {
+  return (
+    <div
+      className={clsx(
+        `bg-gray-700/30 rounded-lg p-4 prose prose-invert prose-sm max-w-none
+        prose-headings:text-gray-100 prose-headings:font-semibold prose-headings:mt-4 prose-headings:mb-2
+        prose-p:text-gray-300 prose-p:my-2
+        prose-a:text-blue-400 prose-a:no-underline hover:prose-a:underline
+        prose-strong:text-gray-100 prose-em:text-gray-200
+        prose-code:text-pink-400 prose-code:bg-gray-800 prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-code:text-sm prose-code:before:content-none prose-code:after:content-none
+        prose-pre:bg-gray-800 prose-pre:border prose-pre:border-gray-700 prose-pre:rounded-lg prose-pre:p-0
+        prose-ul:text-gray-300 prose-ol:text-gray-300 prose-li:my-0.5
+        prose-blockquote:border-l-blue-500 prose-blockquote:text-gray-400 prose-blockquote:bg-gray-800/50 prose-blockquote:py-1 prose-blockquote:px-3 prose-blockquote:rounded-r
+        prose-table:border-collapse prose-th:bg-gray-800 prose-th:px-3 prose-th:py-2 prose-td:px-3 prose-td:py-2 prose-td:border prose-td:border-gray-700 prose-th:border prose-th:border-gray-700
+        prose-hr:border-gray-700`,
+        className
+      )}
+    >
+      {source ? (
+        <ReactMarkdown
+          remarkPlugins={[remarkGfm]}
+          rehypePlugins={[rehypeSanitize, rehypeHighlight]}
+          components={{
+            a: ({ node, ...props }) => (
+              <a {...props} target="_blank" rel="noopener noreferrer" />
+            ),
+          }}
+        >
+          {source}
+        </ReactMarkdown>
+      ) : (
+        <p className="text-gray-500 italic">{emptyText}</p>
+      )}
+    </div>
+  );
+}
@@ -31,7 +31,8 @@ export function ProtectedRoute({ children, requiredRole }: ProtectedRouteProps)
 
   // Not authenticated - redirect to login
   if (!user) {
-    return <Navigate to="/login" state={{ from: location.pathname }} replace />;
+    // Keep the query string so shared board and ticket links survive signing in
+    return <Navigate to="/login" state={{ from: location.pathname + location.search }} replace />;
   }
 
   // Check role requirements
@@ -0,0 +1,259 @@
+import { useRef, useState } from 'react';
+import type { FormEvent, KeyboardEvent } from 'react';
+import { Bookmark, Loader2, Terminal, Trash2 } from 'lucide-react';
+import type { TicketFilters } from '../lib/ticketFilters';
+import { formatTicketQuery, parseTicketQuery, suggestQueryCompletions } from '../lib/ticketQuery';
+import type { QueryContext, QuerySuggestion } from '../lib/ticketQuery';
+import { useCreateSavedSearch, useDeleteSavedSearch, useSavedSearches } from '../hooks/useSavedSearches';
+import clsx from 'clsx';
+
+interface QueryBarProps {
+  filters: TicketFilters;
+  context: QueryContext;
+  onApply: (filters: TicketFilters) => void;
+}
+
+export function QueryBar({ filters, context, onApply }: QueryBarProps) {
+  const applied = formatTicketQuery(filters, context.me);
+
+  const [text, setText] = useState(applied);
+  const [syncedQuery, setSyncedQuery] = useState(applied);
+  const [caret, setCaret] = useState(0);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // Enter only picks a suggestion the user moved to with the arrow keys
+  const [navigated, setNavigated] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [showSaved, setShowSaved] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const { data: savedSearches = [], isLoading: savedLoading } = useSavedSearches();
+  const createSavedSearch = useCreateSavedSearch();
+  const deleteSavedSearch = useDeleteSavedSearch();
+
+  // Pick up filter changes made through the filter bar, project tabs or URL
+  if (applied !== syncedQuery) {
+    setSyncedQuery(applied);
+    setText(applied);
+    setErrors([]);
+  }
+
+  const suggestions = showSuggestions ? suggestQueryCompletions(text, caret, context) : null;
+  const items = suggestions?.items ?? [];
+
+  const runQuery = (query: string) => {
+    const parsed = parseTicketQuery(query, context);
+    setErrors(parsed.errors);
+    if (parsed.errors.length === 0) {
+      onApply(parsed.filters);
+    }
+  };
+
+  const acceptSuggestion = (item: QuerySuggestion) => {
+    if (!suggestions) return;
+    const next = text.slice(0, suggestions.from) + item.insert + text.slice(suggestions.to);
+    const nextCaret = suggestions.from + item.insert.length;
+    setText(next);
+    setCaret(nextCaret);
+    setActiveIndex(0);
+    setNavigated(false);
+    // Leave the list open so a field name is followed by its values
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCaret, nextCaret));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (items.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((activeIndex + step + items.length) % items.length);
+        setNavigated(true);
+        return;
+      }
+      if (e.key === 'Tab' || (e.key === 'Enter' && navigated)) {
+        e.preventDefault();
+        acceptSuggestion(items[Math.min(activeIndex, items.length - 1)]);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      setShowSuggestions(false);
+      runQuery(text);
+    } else if (e.key === 'Escape') {
+      if (showSuggestions) {
+        setShowSuggestions(false);
+      } else {
+        // Throw away unapplied edits
+        setText(applied);
+        setErrors([]);
+      }
+    }
+  };
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault();
+    if (!saveName.trim() || !applied) return;
+    createSavedSearch.mutate(
+      { name: saveName.trim(), query: applied },
+      { onSuccess: () => setSaveName('') }
+    );
+  };
+
+  const mutationError = createSavedSearch.error ?? deleteSavedSearch.error;
+
+  return (
+    <div className="relative">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Terminal className="w-4 h-4 text-gray-500 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setCaret(e.target.selectionStart ?? e.target.value.length);
+              setShowSuggestions(true);
+              setActiveIndex(0);
+              setNavigated(false);
+              setErrors([]);
+            }}
+            onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+            onFocus={() => setShowSuggestions(true)}
+            onBlur={() => {
+              setShowSuggestions(false);
+              setNavigated(false);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder='project:Optrader priority:high status:todo assignee:me groomed:failed quality:<60 "login bug"'
+            aria-label="Ticket query"
+            aria-invalid={errors.length > 0}
+            spellCheck={false}
+            className={clsx(
+              'w-full bg-gray-700 rounded pl-8 pr-2 py-1.5 text-sm font-mono placeholder-gray-500 focus:outline-none focus:ring-2',
+              errors.length > 0 ? 'ring-2 ring-red-500/60 focus:ring-red-500' : 'focus:ring-blue-500'
+            )}
+          />
+
+          {/* Autocomplete */}
+          {items.length > 0 && (
+            <ul
+              role="listbox"
+              className="absolute z-20 mt-1 w-full max-w-md bg-gray-800 border border-gray-700 rounded-lg shadow-xl py-1 text-sm"
+            >
+              {items.map((item, index) => (
+                <li
+                  key={item.label}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // Keep focus in the input
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    acceptSuggestion(item);
+                  }}
+                  className={clsx(
+                    'flex items-center justify-between gap-4 px-3 py-1 cursor-pointer',
+                    index === activeIndex ? 'bg-blue-600/40 text-white' : 'text-gray-300 hover:bg-gray-700'
+                  )}
+                >
+                  <span className="font-mono">{item.label}</span>
+                  {item.detail && <span className="text-xs text-gray-500">{item.detail}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <button
+          onClick={() => setShowSaved(!showSaved)}
+          aria-expanded={showSaved}
+          className={clsx(
+            'flex items-center gap-1 px-2 py-1.5 rounded text-sm transition-colors',
+            showSaved ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-gray-200'
+          )}
+        >
+          <Bookmark className="w-4 h-4" />
+          Saved
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul role="alert" className="mt-1 space-y-0.5 text-xs text-red-400">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {/* Saved searches */}
+      {showSaved && (
+        <div className="absolute right-0 z-20 mt-1 w-80 bg-gray-800 border border-gray-700 rounded-lg shadow-xl">
+          <form onSubmit={handleSave} className="flex gap-2 p-2 border-b border-gray-700">
+            <input
+              type="text"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder={applied ? 'Name this search' : 'Apply a query to save it'}
+              disabled={!applied}
+              className="flex-1 bg-gray-700 rounded px-2 py-1 text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+            />
+            <button
+              type="submit"
+              disabled={!applied || !saveName.trim() || createSavedSearch.isPending}
+              className="px-2 py-1 rounded bg-blue-600 hover:bg-blue-500 text-sm disabled:opacity-50"
+            >
+              Save
+            </button>
+          </form>
+
+          {mutationError && (
+            <p className="px-3 pt-2 text-xs text-red-400">
+              {mutationError instanceof Error ? mutationError.message : 'Failed to update saved searches'}
+            </p>
+          )}
+
+          <div className="max-h-64 overflow-y-auto py-1">
+            {savedLoading ? (
+              <div className="flex justify-center py-3">
+                <Loader2 className="w-4 h-4 animate-spin text-gray-500" />
+              </div>
+            ) : savedSearches.length === 0 ? (
+              <p className="px-3 py-2 text-sm text-gray-500">No saved searches yet</p>
+            ) : (
+              savedSearches.map((search) => (
+                <div key={search.id} className="group flex items-center gap-2 px-3 py-1.5 hover:bg-gray-700">
+                  <button
+                    onClick={() => {
+                      setShowSaved(false);
+                      setText(search.query);
+                      runQuery(search.query);
+                    }}
+                    className="flex-1 min-w-0 text-left"
+                    title={search.query}
+                  >
+                    <span className="block text-sm text-gray-200 truncate">{search.name}</span>
+                    <span className="block text-xs font-mono text-gray-500 truncate">{search.query}</span>
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm(`Delete saved search "${search.name}"?`)) {
+                        deleteSavedSearch.mutate(search.id);
+                      }
+                    }}
+                    className="p-1 rounded text-gray-500 opacity-0 group-hover:opacity-100 hover:text-red-400 transition-opacity"
+                    title="Delete saved search"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import type { FormEvent, KeyboardEvent } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { TicketStatus } from '../types/ticket';
+import { PRIORITY_COLORS, PROJECT_COLORS } from '../types/ticket';
+import { useCreateTicket } from '../hooks/useTickets';
+import { projectMembersQuery } from '../hooks/useProjects';
+import { projectWorkflowQuery } from '../hooks/useWorkflows';
+import { findWorkflowStatus } from '../lib/workflow';
+import { useAuth } from '../contexts/AuthContext';
+import { parseQuickAdd } from '../lib/quickAdd';
+import { Plus } from 'lucide-react';
+import clsx from 'clsx';
+
+export interface QuickAddOptions {
+  projects: string[];
+  defaultProject?: string | null;
+}
+
+interface QuickAddTicketProps extends QuickAddOptions {
+  status: TicketStatus;
+}
+
+export function QuickAddTicket({ status, projects, defaultProject }: QuickAddTicketProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const queryClient = useQueryClient();
+  const createTicket = useCreateTicket();
+  const { canEdit, canEditProject } = useAuth();
+
+  const editableProjects = canEdit ? projects.filter((p) => canEditProject(p)) : [];
+  const parsed = parseQuickAdd(input, editableProjects);
+
+  // Explicit #project wins, then the board's project filter, then the only option
+  const project =
+    parsed.project ??
+    (defaultProject && editableProjects.includes(defaultProject) ? defaultProject : undefined) ??
+    (editableProjects.length === 1 ? editableProjects[0] : undefined);
+
+  /**
+   * Resolve an @handle to a member email, matching the full address or its local part
+   */
+  const resolveAssignee = async (handle: string, projectName: string) => {
+    const members = await queryClient.fetchQuery(projectMembersQuery(projectName));
+    const wanted = handle.toLowerCase();
+    const member =
+      members.find((m) => m.email.toLowerCase() === wanted) ??
+      members.find((m) => m.email.toLowerCase().split('@')[0] === wanted);
+    return member?.email;
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (parsed.errors.length > 0) {
+      setError(parsed.errors[0]);
+      return;
+    }
+    if (!parsed.title) {
+      setError('Add a title');
+      return;
+    }
+    if (!project) {
+      setError('Add #project to choose where the ticket goes');
+      return;
+    }
+
+    try {
+      const workflow = await queryClient.fetchQuery(projectWorkflowQuery(project));
+      if (!findWorkflowStatus(workflow, status)) {
+        setError(`${project} has no "${status}" status`);
+        return;
+      }
+    } catch {
+      // Fall through and let the server validate the status
+    }
+
+    let assignee: string | undefined;
+    if (parsed.assignee) {
+      try {
+        assignee = await resolveAssignee(parsed.assignee, project);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load project members');
+        return;
+      }
+      if (!assignee) {
+        setError(`No member matching @${parsed.assignee} in ${project}`);
+        return;
+      }
+    }
+
+    createTicket.mutate(
+      {
+        title: parsed.title,
+        status,
+        project,
+        priority: parsed.priority ?? 'medium',
+        body: '',
+        ...(assignee && { assignee }),
+        ...(parsed.estimate !== undefined && { estimate: parsed.estimate }),
+      },
+      {
+        onError: (err) => setError(err instanceof Error ? err.message : 'Failed to create ticket'),
+      }
+    );
+
+    // Stay open and focused so the next ticket can be typed straight away
+    setInput('');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+      setInput('');
+      setError(null);
+    }
+  };
+
+  if (editableProjects.length === 0) return null;
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="w-full flex items-center gap-1 px-2 py-1.5 rounded text-sm text-gray-500 hover:bg-gray-700/50 hover:text-gray-300 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Add ticket
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-1">
+      <input
+        type="text"
+        value={input}
+        onChange={(e) => {
+          setInput(e.target.value);
+          setError(null);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => !input && setIsOpen(false)}
+        placeholder="Title !high #project @user 3pt"
+        className="w-full bg-gray-700 rounded px-2 py-1.5 text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        autoFocus
+      />
+
+      {/* Parsed token preview */}
+      {input && (
+        <div className="flex flex-wrap items-center gap-1 px-1 text-xs">
+          {project && (
+            <span className={clsx('px-1.5 py-0.5 rounded', PROJECT_COLORS[project] || 'bg-gray-600')}>
+              {project}
+            </span>
+          )}
+          {parsed.priority && (
+            <span className="flex items-center gap-1 text-gray-400">
+              <span className={clsx('w-2 h-2 rounded-full', PRIORITY_COLORS[parsed.priority])} />
+              {parsed.priority}
+            </span>
+          )}
+          {parsed.assignee && <span className="text-gray-400">@{parsed.assignee}</span>}
+          {parsed.estimate !== undefined && (
+            <span className="bg-gray-700 px-1.5 py-0.5 rounded">{parsed.estimate}pt</span>
+          )}
+        </div>
+      )}
+
+      {error && <p className="px-1 text-xs text-red-400">{error}</p>}
+    </form>
+  );
+}
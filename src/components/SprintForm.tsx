@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { addDays, format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import clsx from 'clsx';
+import type { Sprint, SprintInput } from '../types/sprint';
+
+const inputClass =
+  'bg-gray-700 rounded px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface SprintFormProps {
+  // The sprint being edited; a new one otherwise
+  sprint?: Sprint;
+  // Pre-filled for a new sprint, e.g. from the last sprint's finished points
+  suggestedCapacity?: number;
+  // Where a new sprint starts by default
+  defaultStart?: Date;
+  isPending: boolean;
+  error: Error | null;
+  onSubmit: (sprint: SprintInput) => void;
+  onCancel: () => void;
+}
+
+export function SprintForm({
+  sprint,
+  suggestedCapacity,
+  defaultStart = new Date(),
+  isPending,
+  error,
+  onSubmit,
+  onCancel,
+}: SprintFormProps) {
+  const [name, setName] = useState(sprint?.name ?? '');
+  const [startDate, setStartDate] = useState(sprint?.startDate ?? format(defaultStart, 'yyyy-MM-dd'));
+  // Two weeks by default
+  const [endDate, setEndDate] = useState(sprint?.endDate ?? format(addDays(defaultStart, 13), 'yyyy-MM-dd'));
+  const [capacity, setCapacity] = useState(
+    sprint?.capacity?.toString() ?? suggestedCapacity?.toString() ?? ''
+  );
+  const [goal, setGoal] = useState(sprint?.goal ?? '');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmedCapacity = capacity.trim();
+    const points = trimmedCapacity ? Number(trimmedCapacity) : undefined;
+
+    if (!name.trim()) {
+      setValidationError('Give the sprint a name');
+      return;
+    }
+    if (!startDate || !endDate || endDate < startDate) {
+      setValidationError('The sprint must end on or after its start date');
+      return;
+    }
+    if (points !== undefined && (Number.isNaN(points) || points < 0)) {
+      setValidationError('Capacity must be a non-negative number of points');
+      return;
+    }
+    setValidationError(null);
+    onSubmit({ name: name.trim(), startDate, endDate, capacity: points ?? null, goal: goal.trim() || null });
+  };
+
+  const message = validationError ?? error?.message;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 bg-gray-900/40 rounded-lg p-3">
+      {message && (
+        <div className="p-2 bg-red-500/20 border border-red-500/50 rounded text-red-400 text-sm">{message}</div>
+      )}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <label className="col-span-2 text-xs text-gray-400">
+          Name
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Sprint 12"
+            className={clsx(inputClass, 'w-full mt-1')}
+            autoFocus
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Starts
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className={clsx(inputClass, 'w-full mt-1')}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Ends
+          <input
+            type="date"
+            value={endDate}
+            min={startDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className={clsx(inputClass, 'w-full mt-1')}
+          />
+        </label>
+        <label className="col-span-2 sm:col-span-3 text-xs text-gray-400">
+          Goal
+          <input
+            value={goal}
+            onChange={(e) => setGoal(e.target.value)}
+            placeholder="What the sprint should achieve"
+            className={clsx(inputClass, 'w-full mt-1')}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Capacity (points)
+          <input
+            type="number"
+            min={0}
+            value={capacity}
+            onChange={(e) => setCapacity(e.target.value)}
+            placeholder="No limit"
+            className={clsx(inputClass, 'w-full mt-1')}
+          />
+        </label>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 rounded bg-gray-700 hover:bg-gray-600 transition-colors text-sm"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isPending}
+          className="flex items-center gap-1 px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 transition-colors text-sm disabled:opacity-50"
+        >
+          {isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+          {sprint ? 'Save sprint' : 'Create sprint'}
+        </button>
+      </div>
+    </form>
+  );
+}
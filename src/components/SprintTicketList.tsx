@@ -0,0 +1,95 @@
+import { useDraggable, useDroppable } from '@dnd-kit/core';
+import { CSS } from '@dnd-kit/utilities';
+import { Link } from 'react-router-dom';
+import clsx from 'clsx';
+import type { Ticket } from '../types/ticket';
+import { PRIORITY_COLORS } from '../types/ticket';
+import { ticketPath } from '../lib/routes';
+
+interface SprintTicketRowProps {
+  ticket: Ticket;
+  canDrag: boolean;
+  // Shown after the title, e.g. where a backlog ticket came from
+  note?: string;
+}
+
+function SprintTicketRow({ ticket, canDrag, note }: SprintTicketRowProps) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: ticket.id,
+    disabled: !canDrag,
+  });
+
+  return (
+    <li
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      {...attributes}
+      {...listeners}
+      className={clsx(
+        'flex items-center gap-2 px-3 py-2 text-sm bg-gray-800 rounded border border-gray-700',
+        canDrag && 'cursor-grab active:cursor-grabbing',
+        isDragging && 'relative z-10 shadow-xl opacity-80'
+      )}
+    >
+      <span className={clsx('w-2 h-2 rounded-full shrink-0', PRIORITY_COLORS[ticket.priority])} title={ticket.priority} />
+      <Link
+        to={ticketPath(ticket.id, ticket.project)}
+        className="font-mono text-xs text-gray-400 hover:text-blue-400 shrink-0"
+      >
+        {ticket.id}
+      </Link>
+      <span className="truncate text-gray-200 flex-1">
+        {ticket.title}
+        {note && <span className="ml-2 text-xs text-gray-500">{note}</span>}
+      </span>
+      {ticket.assignee && (
+        <span className="hidden md:inline text-xs text-gray-500 truncate max-w-[8rem]">{ticket.assignee}</span>
+      )}
+      <span
+        className={clsx(
+          'text-xs px-1.5 rounded shrink-0',
+          ticket.estimate != null ? 'bg-gray-700 text-gray-300' : 'text-yellow-500'
+        )}
+        title={ticket.estimate != null ? `${ticket.estimate} points` : 'Not estimated'}
+      >
+        {ticket.estimate ?? '?'}
+      </span>
+    </li>
+  );
+}
+
+interface SprintTicketListProps {
+  // Droppable id, which the planning page's drop handler switches on
+  id: string;
+  tickets: Ticket[];
+  canDrag: boolean;
+  // Whether tickets can be dropped here
+  accepts: boolean;
+  empty: string;
+  noteFor?: (ticket: Ticket) => string | undefined;
+}
+
+/**
+ * A list tickets are dragged into and out of while planning a sprint
+ */
+export function SprintTicketList({ id, tickets, canDrag, accepts, empty, noteFor }: SprintTicketListProps) {
+  const { setNodeRef, isOver } = useDroppable({ id, disabled: !accepts });
+
+  return (
+    <ul
+      ref={setNodeRef}
+      className={clsx(
+        'min-h-32 max-h-[60vh] overflow-y-auto space-y-1.5 p-2 rounded-lg border border-dashed transition-colors',
+        isOver ? 'border-blue-500 bg-blue-500/5' : 'border-gray-700 bg-gray-900/40'
+      )}
+    >
+      {tickets.length === 0 ? (
+        <li className="text-sm text-gray-500 text-center py-6">{empty}</li>
+      ) : (
+        tickets.map((ticket) => (
+          <SprintTicketRow key={ticket.id} ticket={ticket} canDrag={canDrag} note={noteFor?.(ticket)} />
+        ))
+      )}
+    </ul>
+  );
+}
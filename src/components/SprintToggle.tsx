@@ -0,0 +1,37 @@
+import { Timer } from 'lucide-react';
+import clsx from 'clsx';
+import type { Sprint } from '../types/sprint';
+import { formatSprintDates } from '../lib/sprints';
+
+interface SprintToggleProps {
+  // The running sprint of each project on the board
+  sprints: Sprint[];
+  value: boolean;
+  onChange: (value: boolean) => void;
+}
+
+/**
+ * Limit the board to the tickets committed to the running sprints
+ */
+export function SprintToggle({ sprints, value, onChange }: SprintToggleProps) {
+  const title =
+    sprints.length === 0
+      ? 'No sprint is running'
+      : sprints.map((s) => `${s.project}: ${s.name} (${formatSprintDates(s)})`).join('\n');
+
+  return (
+    <label
+      className={clsx('flex items-center gap-2 text-sm', sprints.length > 0 ? 'text-gray-400' : 'text-gray-600')}
+      title={title}
+    >
+      <input
+        type="checkbox"
+        checked={value}
+        onChange={(e) => onChange(e.target.checked)}
+        disabled={sprints.length === 0 && !value}
+      />
+      <Timer className="w-4 h-4" />
+      {sprints.length === 1 ? sprints[0].name : 'Current sprint'} only
+    </label>
+  );
+}
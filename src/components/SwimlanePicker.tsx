@@ -0,0 +1,29 @@
+import { Rows3 } from 'lucide-react';
+import { SWIMLANE_LABELS } from '../lib/swimlanes';
+import type { SwimlaneField } from '../lib/swimlanes';
+
+interface SwimlanePickerProps {
+  value: SwimlaneField | null;
+  onChange: (value: SwimlaneField | null) => void;
+}
+
+export function SwimlanePicker({ value, onChange }: SwimlanePickerProps) {
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-400">
+      <Rows3 className="w-4 h-4" />
+      Swimlanes
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange((e.target.value as SwimlaneField) || null)}
+        className="bg-gray-700 rounded px-2 py-1 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">None</option>
+        {(Object.keys(SWIMLANE_LABELS) as SwimlaneField[]).map((field) => (
+          <option key={field} value={field}>
+            {SWIMLANE_LABELS[field]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState, useSyncExternalStore } from 'react';
+import { useMutation, useMutationState, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, CloudOff, GitMerge, Loader2, RotateCw, UploadCloud, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { TicketConflictError } from '../api/tickets';
+import type { Ticket, TicketStatus, TicketUpdate } from '../types/ticket';
+import { TICKET_MUTATION_KEYS, useCreateTicket, useDeleteTicket, useUpdateTicket } from '../hooks/useTickets';
+import type { MoveTicketVariables, ReorderTicketVariables, TicketMutationContext } from '../hooks/useTickets';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { dismissSyncIssue, getSyncIssues, subscribeToSyncIssues, ticketIdOf } from '../lib/syncIssues';
+import type { SyncIssue } from '../lib/syncIssues';
+import { TicketMergeDialog } from './TicketMergeDialog';
+
+function describeIssue(issue: SyncIssue): string {
+  const id = ticketIdOf(issue) ?? 'ticket';
+  switch (issue.kind) {
+    case 'update': {
+      const { update } = issue.variables as { update: TicketUpdate };
+      return `Edit ${Object.keys(update).join(', ')} on ${id}`;
+    }
+    case 'move':
+      return `Move ${id} to ${(issue.variables as { newStatus: TicketStatus }).newStatus}`;
+    case 'reorder':
+      return `Reposition ${id}`;
+    case 'create':
+      return `Create "${(issue.variables as Partial<Ticket>).title ?? 'Untitled'}"`;
+    case 'delete':
+      return `Delete ${id}`;
+  }
+}
+
+interface SyncIssueRowProps {
+  issue: SyncIssue;
+}
+
+function SyncIssueRow({ issue }: SyncIssueRowProps) {
+  const queryClient = useQueryClient();
+  const updateTicket = useUpdateTicket();
+  const createTicket = useCreateTicket();
+  const deleteTicket = useDeleteTicket();
+  // Replayed as queued, including any entry rule override, so not through useMoveTicket
+  const moveTicket = useMutation<Ticket, Error, MoveTicketVariables, TicketMutationContext>({
+    mutationKey: TICKET_MUTATION_KEYS.move,
+  });
+  const reorderTicket = useMutation<Ticket, Error, ReorderTicketVariables, TicketMutationContext>({
+    mutationKey: TICKET_MUTATION_KEYS.reorder,
+  });
+  const [retrying, setRetrying] = useState(false);
+  const [retryError, setRetryError] = useState<string | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  const conflict = issue.error instanceof TicketConflictError ? issue.error.current : null;
+  const update = issue.kind === 'update' ? (issue.variables as { id: string; update: TicketUpdate }) : null;
+  const canMerge = conflict && update && (update.update.title !== undefined || update.update.body !== undefined);
+
+  const resolved = () => {
+    setRetrying(false);
+    dismissSyncIssue(issue.id);
+  };
+  const failed = (err: Error) => {
+    setRetrying(false);
+    setRetryError(err.message);
+  };
+
+  // Send the change again as it was made, overwriting whatever is on the server now
+  const handleKeepMine = () => {
+    setRetrying(true);
+    setRetryError(null);
+    const callbacks = { onSuccess: resolved, onError: failed };
+    const variables = issue.variables as Record<string, unknown>;
+    switch (issue.kind) {
+      case 'update':
+        if (update) updateTicket.mutate({ id: update.id, update: update.update }, callbacks);
+        break;
+      case 'create':
+        createTicket.mutate(variables as Partial<Ticket>, callbacks);
+        break;
+      case 'delete':
+        deleteTicket.mutate(variables.id as string, callbacks);
+        break;
+      case 'move':
+        moveTicket.mutate(issue.variables as MoveTicketVariables, callbacks);
+        break;
+      case 'reorder':
+        reorderTicket.mutate(issue.variables as ReorderTicketVariables, callbacks);
+        break;
+    }
+  };
+
+  const handleKeepTheirs = () => {
+    dismissSyncIssue(issue.id);
+    queryClient.invalidateQueries({ queryKey: ['tickets'] });
+  };
+
+  const handleSaveMerged = (merged: { title: string; body: string }) => {
+    if (!conflict || !update) return;
+    setRetrying(true);
+    setRetryError(null);
+    updateTicket.mutate(
+      { id: update.id, update: { ...update.update, ...merged }, expectedUpdatedAt: conflict.updatedAt },
+      {
+        onSuccess: () => {
+          setMerging(false);
+          resolved();
+        },
+        onError: failed,
+      }
+    );
+  };
+
+  const original: Ticket | undefined = issue.original ?? conflict ?? undefined;
+
+  return (
+    <li className="px-3 py-2 space-y-1.5">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm text-gray-200">{describeIssue(issue)}</p>
+          <p className="text-xs text-red-400">{retryError ?? issue.error.message}</p>
+          <p className="text-xs text-gray-500">
+            Failed {formatDistanceToNow(new Date(issue.failedAt), { addSuffix: true })}
+          </p>
+        </div>
+        {retrying && <Loader2 className="w-4 h-4 animate-spin text-gray-400 shrink-0" />}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {canMerge && (
+          <button
+            onClick={() => setMerging(true)}
+            disabled={retrying}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-yellow-500/20 text-yellow-200 hover:bg-yellow-500/30 disabled:opacity-50"
+          >
+            <GitMerge className="w-3 h-3" />
+            Merge
+          </button>
+        )}
+        <button
+          onClick={handleKeepMine}
+          disabled={retrying}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50"
+        >
+          <RotateCw className="w-3 h-3" />
+          {conflict ? 'Keep mine' : 'Retry'}
+        </button>
+        <button
+          onClick={handleKeepTheirs}
+          disabled={retrying}
+          className="px-2 py-1 rounded text-xs text-gray-400 hover:bg-gray-700 hover:text-gray-200 disabled:opacity-50"
+        >
+          {conflict ? 'Keep theirs' : 'Discard'}
+        </button>
+      </div>
+
+      {merging && conflict && update && original && (
+        <TicketMergeDialog
+          original={original}
+          theirs={conflict}
+          mine={{ title: update.update.title ?? original.title, body: update.update.body ?? original.body }}
+          saving={retrying}
+          error={retryError}
+          onSave={handleSaveMerged}
+          onDiscardMine={() => {
+            setMerging(false);
+            handleKeepTheirs();
+          }}
+          onCancel={() => setMerging(false)}
+        />
+      )}
+    </li>
+  );
+}
+
+/**
+ * Offline state, changes waiting to be sent, and queued changes the server
+ * rejected once they were replayed
+ */
+export function SyncStatus() {
+  const online = useOnlineStatus();
+  const [showIssues, setShowIssues] = useState(false);
+  const issues = useSyncExternalStore(subscribeToSyncIssues, getSyncIssues);
+
+  // Queued changes still waiting for, or being sent to, the server
+  const pending = useMutationState({
+    filters: {
+      mutationKey: ['tickets'],
+      status: 'pending',
+      predicate: (mutation) => (mutation.state.context as TicketMutationContext | undefined)?.queued === true,
+    },
+    select: (mutation) => mutation.state.submittedAt,
+  }).length;
+
+  return (
+    <div className="relative flex items-center gap-2">
+      {!online && (
+        <span
+          className="flex items-center gap-1.5 px-2 py-1 rounded text-xs bg-gray-700 text-gray-300"
+          title="Changes are saved on this device and sent when you're back online"
+        >
+          <CloudOff className="w-3 h-3" />
+          Offline
+        </span>
+      )}
+
+      {pending > 0 && (
+        <span
+          className="flex items-center gap-1.5 px-2 py-1 rounded text-xs bg-blue-500/20 text-blue-300"
+          title={online ? 'Sending changes made while offline' : 'Waiting for a connection to send these changes'}
+        >
+          {online ? <Loader2 className="w-3 h-3 animate-spin" /> : <UploadCloud className="w-3 h-3" />}
+          {pending} pending {pending === 1 ? 'change' : 'changes'}
+        </span>
+      )}
+
+      {issues.length > 0 && (
+        <button
+          onClick={() => setShowIssues(!showIssues)}
+          aria-expanded={showIssues}
+          className="flex items-center gap-1.5 px-2 py-1 rounded text-xs bg-red-500/20 text-red-300 hover:bg-red-500/30"
+        >
+          <AlertTriangle className="w-3 h-3" />
+          {issues.length} not synced
+        </button>
+      )}
+
+      {showIssues && issues.length > 0 && (
+        <div className="absolute right-0 top-full z-30 mt-2 w-96 bg-gray-800 border border-gray-700 rounded-lg shadow-xl">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-200">Changes the server rejected</h3>
+            <button onClick={() => setShowIssues(false)} className="p-1 rounded hover:bg-gray-700">
+              <X className="w-4 h-4 text-gray-400" />
+            </button>
+          </div>
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-700">
+            {issues.map((issue) => (
+              <SyncIssueRow key={issue.id} issue={issue} />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
+import type { MouseEvent } from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import type { Ticket } from '../types/ticket';
+import type { BoardDroppableData } from '../lib/dnd';
 import { PRIORITY_COLORS, PROJECT_COLORS } from '../types/ticket';
 import { formatDistanceToNow } from 'date-fns';
 import { GripVertical, Loader2, CheckCircle, AlertCircle, Clock, Sparkles } from 'lucide-react';
@@ -8,10 +10,12 @@ import clsx from 'clsx';
 
 interface TicketCardProps {
   ticket: Ticket;
-  onClick: (ticket: Ticket) => void;
+  // Receives the event so modifier keys can select instead of open
+  onClick: (ticket: Ticket, event: MouseEvent) => void;
+  selected?: boolean;
 }
 
-export function TicketCard({ ticket, onClick }: TicketCardProps) {
+export function TicketCard({ ticket, onClick, selected }: TicketCardProps) {
   const {
     attributes,
     listeners,
@@ -19,7 +23,7 @@ export function TicketCard({ ticket, onClick }: TicketCardProps) {
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: ticket.id });
+  } = useSortable({ id: ticket.id, data: { type: 'ticket' } satisfies BoardDroppableData });
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -49,18 +53,26 @@ export function TicketCard({ ticket, onClick }: TicketCardProps) {
     <div
       ref={setNodeRef}
       style={style}
+      data-ticket-id={ticket.id}
+      tabIndex={0}
+      role="listitem"
+      aria-label={`${ticket.id}: ${ticket.title}${selected ? ', selected' : ''}`}
+      aria-keyshortcuts="Enter Shift+ArrowLeft Shift+ArrowRight"
       className={clsx(
         'bg-gray-800 rounded-lg p-3 shadow-md border border-gray-700',
         'hover:border-gray-600 cursor-pointer transition-all',
+        selected && 'border-blue-500 bg-blue-500/10 hover:border-blue-400',
+        'focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400',
         isDragging && 'opacity-50 shadow-lg ring-2 ring-blue-500'
       )}
-      onClick={() => onClick(ticket)}
+      onClick={(e) => onClick(ticket, e)}
     >
       <div className="flex items-start gap-2">
         <button
           {...attributes}
           {...listeners}
-          className="mt-0.5 p-1 -ml-1 rounded hover:bg-gray-700 cursor-grab active:cursor-grabbing"
+          aria-label={`Move ticket ${ticket.id}`}
+          className="mt-0.5 p-1 -ml-1 rounded hover:bg-gray-700 cursor-grab active:cursor-grabbing focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
           onClick={(e) => e.stopPropagation()}
         >
           <GripVertical className="w-4 h-4 text-gray-500" />
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { GitMerge, Loader2, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import clsx from 'clsx';
+import type { Ticket } from '../types/ticket';
+import { hasConflictMarkers, mergeText, mergeValue } from '../lib/merge';
+
+interface TicketDraft {
+  title: string;
+  body: string;
+}
+
+interface TicketMergeDialogProps {
+  // The version the edit started from
+  original: Ticket;
+  // The version now on the server
+  theirs: Ticket;
+  mine: TicketDraft;
+  saving: boolean;
+  error?: string | null;
+  onSave: (merged: TicketDraft) => void;
+  onDiscardMine: () => void;
+  onCancel: () => void;
+}
+
+function VersionPane({ label, text, className }: { label: string; text: string; className?: string }) {
+  return (
+    <div className="min-w-0 flex flex-col">
+      <span className="text-xs text-gray-400 mb-1">{label}</span>
+      <pre
+        className={clsx(
+          'flex-1 bg-gray-900/60 rounded px-2 py-1.5 text-xs font-mono text-gray-300 whitespace-pre-wrap break-words overflow-y-auto max-h-48 border',
+          className
+        )}
+      >
+        {text || <span className="text-gray-600">(empty)</span>}
+      </pre>
+    </div>
+  );
+}
+
+/**
+ * Three-way merge of title and body after a save was rejected because
+ * someone else saved first
+ */
+export function TicketMergeDialog({
+  original,
+  theirs,
+  mine,
+  saving,
+  error,
+  onSave,
+  onDiscardMine,
+  onCancel,
+}: TicketMergeDialogProps) {
+  const [titleMerge] = useState(() => mergeValue(original.title, mine.title, theirs.title));
+  const [bodyMerge] = useState(() => mergeText(original.body, mine.body, theirs.body));
+  const [title, setTitle] = useState(titleMerge.text);
+  const [body, setBody] = useState(bodyMerge.text);
+
+  const unresolved = hasConflictMarkers(body);
+  const conflicts = titleMerge.conflicts + bodyMerge.conflicts;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl max-w-6xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="flex items-start justify-between p-4 border-b border-gray-700">
+          <div>
+            <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-100">
+              <GitMerge className="w-5 h-5 text-yellow-400" />
+              Merge changes to {theirs.id}
+            </h2>
+            <p className="text-sm text-gray-400 mt-1">
+              Someone saved this ticket {formatDistanceToNow(new Date(theirs.updatedAt), { addSuffix: true })},
+              after you started editing.{' '}
+              {conflicts === 0
+                ? 'Your changes and theirs touch different lines and have been combined below.'
+                : `${conflicts} ${conflicts === 1 ? 'place was' : 'places were'} changed by both of you. Resolve ${conflicts === 1 ? 'it' : 'them'} in the merged result.`}
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-gray-700 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-400 text-sm">{error}</div>
+          )}
+
+          {/* Title */}
+          <section>
+            <h3 className="text-sm font-semibold text-gray-200 mb-2">Title</h3>
+            <div className="grid grid-cols-3 gap-3 mb-2">
+              <VersionPane label="Original" text={original.title} className="border-gray-700" />
+              <VersionPane label="Theirs" text={theirs.title} className="border-blue-500/40" />
+              <VersionPane label="Mine" text={mine.title} className="border-green-500/40" />
+            </div>
+            <label className="text-xs text-gray-400 block mb-1">Merged title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className={clsx(
+                'w-full bg-gray-700 rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500',
+                titleMerge.conflicts > 0 && 'ring-1 ring-yellow-500/60'
+              )}
+            />
+          </section>
+
+          {/* Body */}
+          <section>
+            <h3 className="text-sm font-semibold text-gray-200 mb-2">Description</h3>
+            <div className="grid grid-cols-3 gap-3 mb-2">
+              <VersionPane label="Original" text={original.body} className="border-gray-700" />
+              <VersionPane label="Theirs" text={theirs.body} className="border-blue-500/40" />
+              <VersionPane label="Mine" text={mine.body} className="border-green-500/40" />
+            </div>
+            <label className="text-xs text-gray-400 block mb-1">Merged description</label>
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              spellCheck={false}
+              className={clsx(
+                'w-full bg-gray-700 rounded px-3 py-2 text-sm font-mono min-h-[240px] focus:outline-none focus:ring-2 focus:ring-blue-500',
+                unresolved && 'ring-1 ring-yellow-500/60'
+              )}
+            />
+            {unresolved && (
+              <p className="text-xs text-yellow-400 mt-1">
+                Edit the sections between the &lt;&lt;&lt;&lt;&lt;&lt;&lt; Mine and &gt;&gt;&gt;&gt;&gt;&gt;&gt; Theirs
+                markers and remove the markers before saving.
+              </p>
+            )}
+          </section>
+        </div>
+
+        <div className="flex items-center justify-between p-4 border-t border-gray-700">
+          <button
+            onClick={onDiscardMine}
+            className="px-4 py-1.5 rounded bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-colors text-sm"
+          >
+            Discard mine
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-1.5 rounded bg-gray-700 hover:bg-gray-600 transition-colors text-sm"
+            >
+              Back to editing
+            </button>
+            <button
+              onClick={() => onSave({ title, body })}
+              disabled={saving || unresolved || !title.trim()}
+              className="flex items-center gap-1 px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 transition-colors text-sm disabled:opacity-50"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save merged
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,41 +1,100 @@
 import { useState, useEffect } from 'react';
 import type { Ticket, TicketStatus, Priority } from '../types/ticket';
-import { STATUS_LABELS, PROJECT_COLORS } from '../types/ticket';
-import { useUpdateTicket, useTriggerGrooming, useDeleteTicket } from '../hooks/useTickets';
+import type { WorkflowStatus } from '../types/workflow';
+import { PROJECT_COLORS } from '../types/ticket';
+import { TicketConflictError } from '../api/tickets';
+import { useTicket, useUpdateTicket, useMoveTicket, useTriggerGrooming, useDeleteTicket } from '../hooks/useTickets';
+import { useProjectMembers, projectMembersQuery } from '../hooks/useProjects';
+import { useEntryRuleOverride, useProjectWorkflow } from '../hooks/useWorkflows';
+import { describeUnmetRules, findWorkflowStatus, unknownStatusColumn, unmetEntryRules } from '../lib/workflow';
+import { onlineManager, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../contexts/AuthContext';
-import { X, Loader2, Sparkles, Trash2, Eye, Lock } from 'lucide-react';
+import { useTicketSubscription } from '../hooks/useTicketSubscription';
+import { X, Loader2, Sparkles, Trash2, Eye, Lock, RefreshCw } from 'lucide-react';
 import { formatDistanceToNow, format } from 'date-fns';
 import clsx from 'clsx';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
-import rehypeSanitize from 'rehype-sanitize';
-import rehypeHighlight from 'rehype-highlight';
-import 'highlight.js/styles/github-dark.css';
+import { MarkdownBody } from './MarkdownBody';
+import { TicketMergeDialog } from './TicketMergeDialog';
+import { GroomingPanel } from './GroomingPanel';
 
 interface TicketModalProps {
   ticket: Ticket | null;
+  projects: string[];
   onClose: () => void;
 }
 
-export function TicketModal({ ticket, onClose }: TicketModalProps) {
+// The board list and the single-ticket query are updated separately, so show whichever is newer
+function latestTicket(listed: Ticket | null, live: Ticket | undefined): Ticket | null {
+  if (!listed || !live) return listed ?? live ?? null;
+  return Date.parse(live.updatedAt) > Date.parse(listed.updatedAt) ? live : listed;
+}
+
+export function TicketModal({ ticket: listedTicket, projects, onClose }: TicketModalProps) {
   const [isEditing, setIsEditing] = useState(false);
+  // The ticket as it was when editing started, to spot changes made meanwhile
+  const [editBase, setEditBase] = useState<Ticket | null>(null);
   const [editedTitle, setEditedTitle] = useState('');
   const [editedBody, setEditedBody] = useState('');
+  const [editedEstimate, setEditedEstimate] = useState('');
+  const [fieldError, setFieldError] = useState<string | null>(null);
+  // updatedAt of a remote change the user chose to keep editing through
+  const [dismissedChange, setDismissedChange] = useState<string | null>(null);
+  // The server's version after a save was rejected as conflicting
+  const [conflict, setConflict] = useState<Ticket | null>(null);
+
+  const queryClient = useQueryClient();
 
   const updateTicket = useUpdateTicket();
+  const moveTicket = useMoveTicket();
+  const confirmOverride = useEntryRuleOverride();
   const triggerGrooming = useTriggerGrooming();
   const deleteTicket = useDeleteTicket();
   const { canEdit, canDelete, canEditProject, canDeleteInProject, getProjectRole } = useAuth();
 
+  // `ticket:updated` events for this ticket land in the ['ticket', id] query
+  useTicketSubscription(listedTicket?.id);
+  const { data: liveTicket } = useTicket(listedTicket?.id);
+  const ticket = latestTicket(listedTicket, liveTicket);
+
+  // Priority, status and other changes made meanwhile, including the user's own,
+  // don't conflict with the title and body being edited. Only the server's copy
+  // counts, since optimistic updates carry a local updatedAt.
+  if (
+    editBase &&
+    liveTicket &&
+    editBase.id === liveTicket.id &&
+    editBase.title === liveTicket.title &&
+    editBase.body === liveTicket.body &&
+    Date.parse(liveTicket.updatedAt) > Date.parse(editBase.updatedAt)
+  ) {
+    setEditBase({ ...editBase, updatedAt: liveTicket.updatedAt });
+  }
+
+  // Sync from the latest ticket data, but never clobber an edit in progress
   useEffect(() => {
-    if (ticket) {
+    if (ticket && !isEditing) {
       setEditedTitle(ticket.title);
       setEditedBody(ticket.body);
+      setEditedEstimate(ticket.estimate != null ? String(ticket.estimate) : '');
     }
-  }, [ticket]);
+  }, [ticket, isEditing]);
+
+  const { data: members = [], isLoading: membersLoading } = useProjectMembers(ticket?.project);
+  const workflow = useProjectWorkflow(ticket?.project);
 
   if (!ticket) return null;
 
+  // Keep a status the workflow doesn't know about selectable so it isn't lost
+  const statusOptions = findWorkflowStatus(workflow, ticket.status)
+    ? workflow.statuses
+    : [...workflow.statuses, unknownStatusColumn(ticket.status)];
+
+  // Statuses the ticket's score isn't yet high enough to enter
+  const scoreGates = workflow.statuses.filter(
+    (s): s is WorkflowStatus & { entryRules: { minQualityScore: number } } =>
+      s.entryRules?.minQualityScore !== undefined && (ticket.qualityScore ?? -Infinity) < s.entryRules.minQualityScore
+  );
+
   const projectName = ticket.project || 'Uncategorized';
   const projectRole = getProjectRole(projectName);
 
@@ -44,29 +103,140 @@ export function TicketModal({ ticket, onClose }: TicketModalProps) {
   const canDeleteThisTicket = canDelete || canDeleteInProject(projectName);
   const isReadOnly = !canEditThisTicket;
 
-  const handleSave = () => {
+  // Moving a ticket needs edit rights on both the source and the target project
+  const movableProjects = canEditThisTicket
+    ? projects.filter((p) => p === projectName || canEditProject(p))
+    : [projectName];
+
+  // Only the fields being edited matter, other fields update in place
+  const changedWhileEditing =
+    isEditing &&
+    editBase !== null &&
+    ticket.updatedAt !== dismissedChange &&
+    (ticket.title !== editBase.title || ticket.body !== editBase.body);
+
+  const handleStartEditing = () => {
+    setEditBase(ticket);
+    setIsEditing(true);
+  };
+
+  const handleLoadLatest = () => {
+    setEditedTitle(ticket.title);
+    setEditedBody(ticket.body);
+    setEditBase(ticket);
+  };
+
+  // Saves only apply on top of the version the edit started from, anything
+  // newer comes back as a conflict to merge
+  const saveEdits = (draft: { title: string; body: string }, base: Ticket) => {
+    setFieldError(null);
     updateTicket.mutate(
       {
         id: ticket.id,
-        update: {
-          title: editedTitle,
-          body: editedBody,
-        },
+        update: draft,
+        expectedUpdatedAt: base.updatedAt,
       },
       {
-        onSuccess: () => setIsEditing(false),
+        onSuccess: () => {
+          setConflict(null);
+          setIsEditing(false);
+        },
+        onError: (error) => {
+          if (error instanceof TicketConflictError) {
+            setConflict(error.current);
+          } else {
+            setFieldError(error instanceof Error ? error.message : 'Failed to save ticket');
+          }
+        },
       }
     );
+    // Offline the save is queued, and a conflict on replay is resolved from the header
+    if (!onlineManager.isOnline()) {
+      setConflict(null);
+      setIsEditing(false);
+    }
+  };
+
+  const handleSave = () => {
+    saveEdits({ title: editedTitle, body: editedBody }, editBase ?? ticket);
+  };
+
+  const handleSaveMerged = (merged: { title: string; body: string }) => {
+    if (!conflict) return;
+    // The merge is now based on their version
+    setEditedTitle(merged.title);
+    setEditedBody(merged.body);
+    setEditBase(conflict);
+    saveEdits(merged, conflict);
+  };
+
+  const handleDiscardMine = () => {
+    setConflict(null);
+    setIsEditing(false);
   };
 
   const handleStatusChange = (status: TicketStatus) => {
-    updateTicket.mutate({ id: ticket.id, update: { status } });
+    const unmet = moveTicket(ticket.id, status);
+    if (unmet.length === 0) {
+      setFieldError(null);
+      return;
+    }
+    const label = statusOptions.find((s) => s.id === status)?.label ?? status;
+    const { override, notice } = confirmOverride(projectName, describeUnmetRules(ticket, label, unmet));
+    if (override) moveTicket(ticket.id, status, { overrideRules: true });
+    setFieldError(notice);
   };
 
   const handlePriorityChange = (priority: Priority) => {
     updateTicket.mutate({ id: ticket.id, update: { priority } });
   };
 
+  const handleAssigneeChange = (assignee: string) => {
+    updateTicket.mutate({ id: ticket.id, update: { assignee: assignee || null } });
+  };
+
+  const handleEstimateCommit = () => {
+    const trimmed = editedEstimate.trim();
+    const estimate = trimmed ? Number(trimmed) : null;
+
+    if (estimate !== null && (Number.isNaN(estimate) || estimate < 0)) {
+      setFieldError('Estimate must be a non-negative number of points.');
+      return;
+    }
+    setFieldError(null);
+    if (estimate === (ticket.estimate ?? null)) return;
+
+    updateTicket.mutate({ id: ticket.id, update: { estimate } });
+  };
+
+  const handleProjectChange = async (targetProject: string) => {
+    if (targetProject === projectName) return;
+    if (!canEditThisTicket || !canEditProject(targetProject)) {
+      setFieldError(`You need Member access to both ${projectName} and ${targetProject} to move this ticket.`);
+      return;
+    }
+    setFieldError(null);
+
+    // Drop the assignee if they aren't part of the target project
+    let keepAssignee = !ticket.assignee;
+    if (ticket.assignee) {
+      try {
+        const targetMembers = await queryClient.fetchQuery(projectMembersQuery(targetProject));
+        keepAssignee = targetMembers.some((m) => m.email === ticket.assignee);
+      } catch {
+        keepAssignee = false;
+      }
+    }
+
+    updateTicket.mutate({
+      id: ticket.id,
+      update: {
+        project: targetProject,
+        ...(!keepAssignee && { assignee: null }),
+      },
+    });
+  };
+
   const handleGroom = () => {
     triggerGrooming.mutate(ticket.id);
   };
@@ -76,6 +246,7 @@ export function TicketModal({ ticket, onClose }: TicketModalProps) {
       deleteTicket.mutate(ticket.id, {
         onSuccess: () => onClose(),
       });
+      if (!onlineManager.isOnline()) onClose();
     }
   };
 
@@ -115,11 +286,6 @@ export function TicketModal({ ticket, onClose }: TicketModalProps) {
                     : projectRole.charAt(0).toUpperCase() + projectRole.slice(1)}
                 </span>
               )}
-              {ticket.estimate && (
-                <span className="text-xs bg-gray-700 px-2 py-0.5 rounded">
-                  {ticket.estimate} points
-                </span>
-              )}
             </div>
             {isEditing ? (
               <input
@@ -154,7 +320,40 @@ export function TicketModal({ ticket, onClose }: TicketModalProps) {
             </div>
           )}
 
-          {/* Status and Priority */}
+          {changedWhileEditing && (
+            <div
+              role="alert"
+              className="flex items-center justify-between gap-3 mb-4 px-3 py-2 bg-yellow-500/10 border border-yellow-500/30 rounded-lg"
+            >
+              <span className="text-sm text-yellow-300">
+                This ticket was changed by someone else while you were editing.
+              </span>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={handleLoadLatest}
+                  className="flex items-center gap-1 px-2 py-1 rounded bg-yellow-500/20 text-yellow-200 hover:bg-yellow-500/30 transition-colors text-xs"
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  Load their changes
+                </button>
+                <button
+                  onClick={() => setDismissedChange(ticket.updatedAt)}
+                  title="Saving will let you merge their changes with yours"
+                  className="px-2 py-1 rounded text-yellow-300 hover:bg-yellow-500/20 transition-colors text-xs"
+                >
+                  Keep editing
+                </button>
+              </div>
+            </div>
+          )}
+
+          {fieldError && (
+            <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-400 text-sm">
+              {fieldError}
+            </div>
+          )}
+
+          {/* Fields */}
           <div className="flex flex-wrap gap-4 mb-4">
             <div>
               <label className="text-xs text-gray-400 block mb-1">Status</label>
@@ -167,11 +366,15 @@ export function TicketModal({ ticket, onClose }: TicketModalProps) {
                   isReadOnly && 'opacity-60 cursor-not-allowed'
                 )}
               >
-                {Object.entries(STATUS_LABELS).map(([value, label]) => (
-                  <option key={value} value={value}>
-                    {label}
-                  </option>
-                ))}
+                {statusOptions.map((s) => {
+                  const unmet = unmetEntryRules(workflow, ticket, s.id);
+                  return (
+                    <option key={s.id} value={s.id} title={unmet.length > 0 ? `Needs ${unmet.join(', ')}` : undefined}>
+                      {s.label}
+                      {unmet.length > 0 && ' (rules not met)'}
+                    </option>
+                  );
+                })}
               </select>
             </div>
 
@@ -193,42 +396,83 @@ export function TicketModal({ ticket, onClose }: TicketModalProps) {
             </div>
 
             <div>
-              <label className="text-xs text-gray-400 block mb-1">Assignee</label>
-              <span className="text-sm">{ticket.assignee || 'Unassigned'}</span>
+              <label className="text-xs text-gray-400 block mb-1">Project</label>
+              <select
+                value={projectName}
+                onChange={(e) => handleProjectChange(e.target.value)}
+                disabled={isReadOnly || movableProjects.length < 2}
+                className={clsx(
+                  'bg-gray-700 rounded px-3 py-1.5 text-sm',
+                  (isReadOnly || movableProjects.length < 2) && 'opacity-60 cursor-not-allowed'
+                )}
+              >
+                {movableProjects.map((p) => (
+                  <option key={p} value={p}>
+                    {p}
+                  </option>
+                ))}
+              </select>
             </div>
 
             <div>
-              <label className="text-xs text-gray-400 block mb-1">Quality Score</label>
-              <span className="text-sm">{ticket.qualityScore ?? 'N/A'}</span>
+              <label className="text-xs text-gray-400 block mb-1">Assignee</label>
+              <select
+                value={ticket.assignee ?? ''}
+                onChange={(e) => handleAssigneeChange(e.target.value)}
+                disabled={isReadOnly || membersLoading}
+                className={clsx(
+                  'bg-gray-700 rounded px-3 py-1.5 text-sm max-w-[220px]',
+                  (isReadOnly || membersLoading) && 'opacity-60 cursor-not-allowed'
+                )}
+              >
+                <option value="">Unassigned</option>
+                {/* Keep a current assignee visible even if they left the project */}
+                {ticket.assignee && !members.some((m) => m.email === ticket.assignee) && (
+                  <option value={ticket.assignee}>{ticket.assignee}</option>
+                )}
+                {members.map((m) => (
+                  <option key={m.user_id} value={m.email}>
+                    {m.email}
+                  </option>
+                ))}
+              </select>
             </div>
-          </div>
 
-          {/* Grooming Status */}
-          {ticket.grooming && (
-            <div className="bg-gray-700/50 rounded-lg p-3 mb-4">
-              <div className="flex items-center gap-2 text-sm">
-                <span className="text-gray-400">Grooming:</span>
-                <span
+            <div>
+              <label className="text-xs text-gray-400 block mb-1">Estimate</label>
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={editedEstimate}
+                  onChange={(e) => setEditedEstimate(e.target.value)}
+                  onBlur={handleEstimateCommit}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  disabled={isReadOnly}
+                  placeholder="—"
                   className={clsx(
-                    'px-2 py-0.5 rounded text-xs font-medium',
-                    ticket.grooming.status === 'complete' && 'bg-green-500/20 text-green-400',
-                    ticket.grooming.status === 'in-progress' && 'bg-blue-500/20 text-blue-400',
-                    ticket.grooming.status === 'pending' && 'bg-yellow-500/20 text-yellow-400',
-                    ticket.grooming.status === 'failed' && 'bg-red-500/20 text-red-400',
-                    ticket.grooming.status === 'manual' && 'bg-purple-500/20 text-purple-400'
+                    'bg-gray-700 rounded px-3 py-1.5 text-sm w-20',
+                    isReadOnly && 'opacity-60 cursor-not-allowed'
                   )}
-                >
-                  {ticket.grooming.status}
-                </span>
-                {ticket.grooming.status === 'in-progress' && (
-                  <Loader2 className="w-4 h-4 animate-spin text-blue-400" />
-                )}
+                />
+                <span className="text-xs text-gray-400">points</span>
               </div>
-              {ticket.grooming.lastError && (
-                <p className="text-xs text-red-400 mt-1">{ticket.grooming.lastError}</p>
+            </div>
+
+            <div>
+              <label className="text-xs text-gray-400 block mb-1">Quality Score</label>
+              <span className="text-sm">{ticket.qualityScore ?? 'N/A'}</span>
+              {scoreGates.length > 0 && (
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {scoreGates.map((s) => `${s.label} needs ${s.entryRules.minQualityScore}`).join(', ')}
+                </p>
               )}
             </div>
-          )}
+          </div>
+
+          {/* Grooming */}
+          <GroomingPanel ticket={ticket} canEdit={canEditThisTicket} />
 
           {/* Body */}
           <div className="mb-4">
@@ -240,35 +484,7 @@ export function TicketModal({ ticket, onClose }: TicketModalProps) {
                 className="w-full bg-gray-700 rounded px-3 py-2 text-sm font-mono min-h-[300px]"
               />
             ) : (
-              <div
-                className="bg-gray-700/30 rounded-lg p-4 prose prose-invert prose-sm max-w-none
-                prose-headings:text-gray-100 prose-headings:font-semibold prose-headings:mt-4 prose-headings:mb-2
-                prose-p:text-gray-300 prose-p:my-2
-                prose-a:text-blue-400 prose-a:no-underline hover:prose-a:underline
-                prose-strong:text-gray-100 prose-em:text-gray-200
-                prose-code:text-pink-400 prose-code:bg-gray-800 prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-code:text-sm prose-code:before:content-none prose-code:after:content-none
-                prose-pre:bg-gray-800 prose-pre:border prose-pre:border-gray-700 prose-pre:rounded-lg prose-pre:p-0
-                prose-ul:text-gray-300 prose-ol:text-gray-300 prose-li:my-0.5
-                prose-blockquote:border-l-blue-500 prose-blockquote:text-gray-400 prose-blockquote:bg-gray-800/50 prose-blockquote:py-1 prose-blockquote:px-3 prose-blockquote:rounded-r
-                prose-table:border-collapse prose-th:bg-gray-800 prose-th:px-3 prose-th:py-2 prose-td:px-3 prose-td:py-2 prose-td:border prose-td:border-gray-700 prose-th:border prose-th:border-gray-700
-                prose-hr:border-gray-700"
-              >
-                {ticket.body ? (
-                  <ReactMarkdown
-                    remarkPlugins={[remarkGfm]}
-                    rehypePlugins={[rehypeSanitize, rehypeHighlight]}
-                    components={{
-                      a: ({ node, ...props }) => (
-                        <a {...props} target="_blank" rel="noopener noreferrer" />
-                      ),
-                    }}
-                  >
-                    {ticket.body}
-                  </ReactMarkdown>
-                ) : (
-                  <p className="text-gray-500 italic">No description provided</p>
-                )}
-              </div>
+              <MarkdownBody source={ticket.body} />
             )}
           </div>
 
@@ -333,7 +549,7 @@ export function TicketModal({ ticket, onClose }: TicketModalProps) {
                 </>
               ) : (
                 <button
-                  onClick={() => setIsEditing(true)}
+                  onClick={handleStartEditing}
                   className="px-4 py-1.5 rounded bg-gray-700 hover:bg-gray-600 transition-colors text-sm"
                 >
                   Edit
@@ -350,6 +566,21 @@ export function TicketModal({ ticket, onClose }: TicketModalProps) {
           </div>
         </div>
       </div>
+
+      {conflict && editBase && (
+        <TicketMergeDialog
+          // Start over if saving the merge conflicts again
+          key={conflict.updatedAt}
+          original={editBase}
+          theirs={conflict}
+          mine={{ title: editedTitle, body: editedBody }}
+          saving={updateTicket.isPending}
+          error={fieldError}
+          onSave={handleSaveMerged}
+          onDiscardMine={handleDiscardMine}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 }
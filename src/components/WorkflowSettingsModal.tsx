@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { X, Loader2, Lock } from 'lucide-react';
+import type { StatusEntryRules, Workflow, WorkflowStatus, WipPolicy } from '../types/workflow';
+import { projectWorkflowQuery, useUpdateProjectWorkflow } from '../hooks/useWorkflows';
+import { useAuth } from '../contexts/AuthContext';
+import clsx from 'clsx';
+
+interface WorkflowSettingsModalProps {
+  projectName: string;
+  onClose: () => void;
+}
+
+interface WorkflowSettingsFormProps {
+  workflow: Workflow;
+  onClose: () => void;
+}
+
+const POLICY_LABELS: Record<WipPolicy, string> = {
+  warn: 'Warn and ask for confirmation',
+  block: 'Block the move',
+};
+
+const RULE_LABELS = {
+  groomed: 'Groomed',
+  assignee: 'Has an assignee',
+  estimate: 'Has an estimate',
+};
+
+export function WorkflowSettingsModal({ projectName, onClose }: WorkflowSettingsModalProps) {
+  const { data: workflow, isLoading, error } = useQuery(projectWorkflowQuery(projectName));
+
+  if (!workflow) {
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+        <div className="bg-gray-800 rounded-lg w-full max-w-lg p-8 flex flex-col items-center gap-3">
+          {isLoading ? (
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          ) : (
+            <p className="text-sm text-red-400">
+              {error instanceof Error ? error.message : 'Failed to load workflow'}
+            </p>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-1.5 rounded bg-gray-700 hover:bg-gray-600 transition-colors text-sm"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Mounted only once loaded so the form starts from the saved limits
+  return <WorkflowSettingsForm workflow={workflow} onClose={onClose} />;
+}
+
+function WorkflowSettingsForm({ workflow, onClose }: WorkflowSettingsFormProps) {
+  const projectName = workflow.project;
+  const { canManageProject } = useAuth();
+  const updateWorkflow = useUpdateProjectWorkflow();
+  const canManage = canManageProject(projectName);
+
+  // Limits are edited as strings so a field can be left blank for "no limit"
+  const [limits, setLimits] = useState<Record<string, string>>(() =>
+    Object.fromEntries(workflow.statuses.map((s) => [s.id, s.wipLimit?.toString() ?? '']))
+  );
+  const [rules, setRules] = useState<Record<string, StatusEntryRules>>(() =>
+    Object.fromEntries(workflow.statuses.map((s) => [s.id, s.entryRules ?? {}]))
+  );
+  // Edited as strings like the limits, blank meaning no minimum
+  const [minScores, setMinScores] = useState<Record<string, string>>(() =>
+    Object.fromEntries(workflow.statuses.map((s) => [s.id, s.entryRules?.minQualityScore?.toString() ?? '']))
+  );
+  const [policy, setPolicy] = useState<WipPolicy>(workflow.wipPolicy ?? 'warn');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const statuses: WorkflowStatus[] = [];
+    for (const status of workflow.statuses) {
+      const raw = (limits[status.id] ?? '').trim();
+      const limit = raw ? Number(raw) : undefined;
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        setError(`The limit for ${status.label} must be a whole number of at least 1`);
+        return;
+      }
+
+      const rawScore = (minScores[status.id] ?? '').trim();
+      const minQualityScore = rawScore ? Number(rawScore) : undefined;
+      if (minQualityScore !== undefined && (Number.isNaN(minQualityScore) || minQualityScore < 0 || minQualityScore > 100)) {
+        setError(`The minimum quality score for ${status.label} must be between 0 and 100`);
+        return;
+      }
+      const { groomed, assignee, estimate } = rules[status.id] ?? {};
+      const entryRules: StatusEntryRules = {
+        ...(groomed && { groomed }),
+        ...(minQualityScore !== undefined && { minQualityScore }),
+        ...(assignee && { assignee }),
+        ...(estimate && { estimate }),
+      };
+
+      // Undefined fields are dropped when the workflow is serialized
+      statuses.push({
+        ...status,
+        wipLimit: limit,
+        entryRules: Object.keys(entryRules).length > 0 ? entryRules : undefined,
+      });
+    }
+
+    updateWorkflow.mutate(
+      { ...workflow, statuses, wipPolicy: policy },
+      { onSuccess: () => onClose() }
+    );
+  };
+
+  const toggleRule = (statusId: string, rule: 'groomed' | 'assignee' | 'estimate') =>
+    setRules((prev) => ({ ...prev, [statusId]: { ...prev[statusId], [rule]: !prev[statusId]?.[rule] } }));
+
+  const inputClass =
+    'bg-gray-700 rounded px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-gray-800 rounded-lg w-full max-w-lg max-h-[80vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <div>
+            <h2 className="text-lg font-semibold text-white">Workflow Settings</h2>
+            <p className="text-sm text-gray-400">{projectName}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {!canManage && (
+            <div className="flex items-center gap-2 px-3 py-2 bg-blue-500/10 border border-blue-500/20 rounded-lg">
+              <Lock className="w-4 h-4 text-blue-400" />
+              <span className="text-sm text-blue-400">
+                Only project owners and admins can change the workflow.
+              </span>
+            </div>
+          )}
+
+          {(error || updateWorkflow.error) && (
+            <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-400 text-sm">
+              {error ??
+                (updateWorkflow.error instanceof Error
+                  ? updateWorkflow.error.message
+                  : 'Failed to save workflow')}
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-200 mb-1">Work-in-progress limits</h3>
+            <p className="text-xs text-gray-400 mb-3">
+              The most tickets from this project allowed in each status. Leave blank for no limit.
+            </p>
+            <div className="space-y-2">
+              {workflow.statuses.map((status) => (
+                <div key={status.id} className="flex items-center justify-between gap-4">
+                  <label htmlFor={`wip-${status.id}`} className="text-sm text-gray-300">
+                    {status.label}
+                  </label>
+                  <input
+                    id={`wip-${status.id}`}
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={limits[status.id] ?? ''}
+                    onChange={(e) => setLimits((prev) => ({ ...prev, [status.id]: e.target.value }))}
+                    disabled={!canManage}
+                    placeholder="No limit"
+                    className={clsx(inputClass, 'w-28')}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="wip-policy" className="text-sm font-medium text-gray-200 block mb-1">
+              When a move goes over a limit
+            </label>
+            <select
+              id="wip-policy"
+              value={policy}
+              onChange={(e) => setPolicy(e.target.value as WipPolicy)}
+              disabled={!canManage}
+              className={clsx(inputClass, 'w-full')}
+            >
+              {(Object.keys(POLICY_LABELS) as WipPolicy[]).map((p) => (
+                <option key={p} value={p}>
+                  {POLICY_LABELS[p]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-200 mb-1">Entry rules</h3>
+            <p className="text-xs text-gray-400 mb-3">
+              What a ticket needs before it can move into each status. Project owners can override them.
+            </p>
+            <div className="space-y-3">
+              {workflow.statuses.map((status) => (
+                <fieldset key={status.id} disabled={!canManage} className="space-y-1.5">
+                  <legend className="text-sm text-gray-300 mb-1">{status.label}</legend>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1.5 text-xs text-gray-300">
+                    {(['groomed', 'assignee', 'estimate'] as const).map((rule) => (
+                      <label key={rule} className="flex items-center gap-1.5">
+                        <input
+                          type="checkbox"
+                          checked={!!rules[status.id]?.[rule]}
+                          onChange={() => toggleRule(status.id, rule)}
+                        />
+                        {RULE_LABELS[rule]}
+                      </label>
+                    ))}
+                    <label className="flex items-center gap-1.5">
+                      Min. quality score
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={minScores[status.id] ?? ''}
+                        onChange={(e) => setMinScores((prev) => ({ ...prev, [status.id]: e.target.value }))}
+                        placeholder="None"
+                        className={clsx(inputClass, 'w-20 py-1 text-xs')}
+                      />
+                    </label>
+                  </div>
+                </fieldset>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 p-4 border-t border-gray-700">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-1.5 rounded bg-gray-700 hover:bg-gray-600 transition-colors text-sm"
+          >
+            Cancel
+          </button>
+          {canManage && (
+            <button
+              type="submit"
+              disabled={updateWorkflow.isPending}
+              className="flex items-center gap-1 px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 transition-colors text-sm disabled:opacity-50"
+            >
+              {updateWorkflow.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              {updateWorkflow.isPending ? 'Saving...' : 'Save'}
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
-import { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import { createContext, useContext, useEffect, useState, useCallback, useMemo } from 'react';
 import type { ReactNode } from 'react';
 import type { User, Session, AuthError } from '@supabase/supabase-js';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { fetchProjects, getProjectPermissions, type Project, type ProjectRole } from '../api/projects';
 
@@ -13,7 +14,7 @@ interface AuthContextType {
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signUp: (email: string, password: string, displayName?: string) => Promise<{ error: AuthError | null }>;
-  signOut: () => Promise<void>;
+  signOut: (options?: SignOutOptions) => Promise<void>;
   canEdit: boolean;
   canDelete: boolean;
   // Project-based access
@@ -28,6 +29,43 @@ interface AuthContextType {
   accessibleProjectNames: string[];
 }
 
+interface SignOutOptions {
+  // Keep changes queued offline for when the same user signs back in, e.g.
+  // when their session expired
+  keepQueuedChanges?: boolean;
+}
+
+// Last known role and projects per user, so the board still opens offline
+const ACCESS_CACHE_KEY = 'mission-control:access';
+
+// The user whose changes are queued, so they're never sent as someone else
+const QUEUE_OWNER_KEY = 'mission-control:queue-owner';
+
+interface CachedAccess {
+  role?: UserRole;
+  projects?: Project[];
+}
+
+function readCachedAccess(userId: string): CachedAccess {
+  try {
+    const cached = JSON.parse(localStorage.getItem(ACCESS_CACHE_KEY) || 'null');
+    return cached?.userId === userId ? cached : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeCachedAccess(userId: string, access: CachedAccess) {
+  try {
+    localStorage.setItem(
+      ACCESS_CACHE_KEY,
+      JSON.stringify({ ...readCachedAccess(userId), ...access, userId })
+    );
+  } catch {
+    // Storage full or disabled, offline start just won't have it
+  }
+}
+
 const AuthContext = createContext<AuthContextType>({
   user: null,
   session: null,
@@ -57,6 +95,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [loading, setLoading] = useState(true);
   const [projects, setProjects] = useState<Project[]>([]);
   const [projectsLoading, setProjectsLoading] = useState(true);
+  const queryClient = useQueryClient();
+
+  // Queued changes are kept, to be sent when the same user signs back in
+  const clearCachedData = useCallback(() => {
+    queryClient.getQueryCache().clear();
+    localStorage.removeItem(ACCESS_CACHE_KEY);
+  }, [queryClient]);
+
+  const claimQueuedChanges = useCallback(
+    (userId: string) => {
+      try {
+        const owner = localStorage.getItem(QUEUE_OWNER_KEY);
+        if (owner && owner !== userId) queryClient.getMutationCache().clear();
+        localStorage.setItem(QUEUE_OWNER_KEY, userId);
+      } catch {
+        // Storage disabled, so nothing was queued across sessions
+      }
+    },
+    [queryClient]
+  );
 
   // Fetch user's projects
   const refreshProjects = useCallback(async () => {
@@ -70,13 +128,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setProjectsLoading(true);
       const userProjects = await fetchProjects();
       setProjects(userProjects);
+      writeCachedAccess(session.user.id, { projects: userProjects });
     } catch (error) {
       console.error('[AuthContext] Failed to fetch projects:', error);
-      setProjects([]);
+      setProjects(readCachedAccess(session.user.id).projects ?? []);
     } finally {
       setProjectsLoading(false);
     }
-  }, [session?.access_token]);
+  }, [session?.access_token, session?.user.id]);
 
   // Get user's role in a specific project
   const getProjectRole = useCallback(
@@ -132,7 +191,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   );
 
   // Get list of accessible project names
-  const accessibleProjectNames = projects.map((p) => p.name);
+  const accessibleProjectNames = useMemo(() => projects.map((p) => p.name), [projects]);
 
   // Fetch user role from API
   const fetchRole = async (userId: string) => {
@@ -192,9 +251,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const roleValue = (data.user?.role as UserRole) || 'viewer';
       console.log('[AuthContext] Setting role to:', roleValue);
       setRole(roleValue);
+      writeCachedAccess(userId, { role: roleValue });
     } catch (error) {
       console.error('[AuthContext] Failed to fetch role:', error);
-      setRole('viewer');
+      setRole(readCachedAccess(userId).role ?? 'viewer');
     } finally {
       console.log('[AuthContext] Setting loading to false');
       setLoading(false);
@@ -242,6 +302,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Another user must not see this one's cached tickets or send their queued
+  // changes. Also covers sign-outs from other tabs and expired sessions.
+  useEffect(() => {
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_OUT') clearCachedData();
+      if (session?.user) claimQueuedChanges(session.user.id);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [clearCachedData, claimQueuedChanges]);
+
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({ email, password });
     return { error };
@@ -260,7 +333,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return { error };
   };
 
-  const signOut = async () => {
+  // Changes queued offline are thrown away unless kept, so check first
+  const signOut = async ({ keepQueuedChanges = false }: SignOutOptions = {}) => {
+    if (!keepQueuedChanges) {
+      const unsynced = queryClient.isMutating({ mutationKey: ['tickets'] });
+      if (
+        unsynced > 0 &&
+        !window.confirm(
+          `${unsynced} unsynced change${unsynced !== 1 ? 's' : ''} will be lost if you sign out. Sign out anyway?`
+        )
+      ) {
+        return;
+      }
+      queryClient.getMutationCache().clear();
+    }
     await supabase.auth.signOut();
     setUser(null);
     setSession(null);
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { QueryClient } from '@tanstack/react-query';
+import type { Ticket } from '../types/ticket';
+import { fetchTicket, triggerGrooming } from '../api/tickets';
+import { createGroomingQueue } from '../lib/groomingQueue';
+import { findCachedTicket } from '../lib/ticketCache';
+import { GroomingQueueContext } from '../hooks/useGroomingQueue';
+import { useAuth } from './AuthContext';
+import { useSocket } from '../hooks/useSocket';
+
+// Show the ticket as pending right away, so its old status doesn't read as finished
+function markGroomingPending(queryClient: QueryClient, id: string) {
+  const pending = (ticket: Ticket): Ticket => ({
+    ...ticket,
+    grooming: { ...ticket.grooming, status: 'pending', triggeredAt: new Date().toISOString(), lastError: undefined },
+  });
+  queryClient.setQueriesData<Ticket[]>({ queryKey: ['tickets'] }, (old) =>
+    old?.some((t) => t.id === id) ? old.map((t) => (t.id === id ? pending(t) : t)) : old
+  );
+  queryClient.setQueryData<Ticket>(['ticket', id], (old) => old && pending(old));
+}
+
+/**
+ * One bulk grooming queue for the app, so it keeps running while its
+ * progress view is closed
+ */
+export function GroomingQueueProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  const { subscribeToTicket, unsubscribeFromTicket } = useSocket();
+  const { session } = useAuth();
+  const userId = session?.user.id ?? null;
+
+  const [queue] = useState(() =>
+    createGroomingQueue({
+      submit: async (ticketId) => {
+        await triggerGrooming(ticketId);
+        markGroomingPending(queryClient, ticketId);
+        // Not on any loaded board, so fetch its status until socket updates take over
+        if (!findCachedTicket(queryClient, ticketId)) {
+          void queryClient.prefetchQuery({ queryKey: ['ticket', ticketId], queryFn: () => fetchTicket(ticketId) });
+        }
+      },
+      statusOf: (ticketId) => findCachedTicket(queryClient, ticketId)?.grooming?.status,
+      // Tickets outside the lists the server broadcasts need their own subscription
+      watch: (ticketId) => {
+        subscribeToTicket(ticketId);
+        return () => unsubscribeFromTicket(ticketId);
+      },
+    })
+  );
+
+  // Socket updates land in the query cache, which is where grooming ends are noticed
+  useEffect(() => queryClient.getQueryCache().subscribe(() => queue.refresh()), [queryClient, queue]);
+
+  // Another user must not inherit the queue
+  useEffect(() => () => queue.reset(), [queue, userId]);
+
+  return <GroomingQueueContext.Provider value={queue}>{children}</GroomingQueueContext.Provider>;
+}
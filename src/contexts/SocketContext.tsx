@@ -0,0 +1,260 @@
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { io, Socket } from 'socket.io-client';
+import { useQueryClient } from '@tanstack/react-query';
+import type { Ticket } from '../types/ticket';
+import { useAuth } from './AuthContext';
+import { supabase } from '../lib/supabase';
+import { createTicketCachePatcher } from '../lib/ticketCache';
+import type { TicketPositionPatch } from '../lib/ticketCache';
+import { SocketContext } from '../hooks/useSocket';
+import type { ConnectionStatus } from '../hooks/useSocket';
+
+// Use relative path (current origin) if WS_URL is not provided
+const WS_URL = import.meta.env.VITE_WS_URL || window.location.origin;
+
+// How long to wait for the server to answer a `tickets:sync` before refetching instead
+const SYNC_TIMEOUT = 10000;
+
+// Connection errors that mean the token was rejected, rather than a network problem
+const AUTH_ERROR = /unauthori[sz]ed|authentication|jwt|token|expired/i;
+
+// Changes made while this client was disconnected
+interface TicketSyncResponse {
+  tickets: Ticket[];
+  deleted: string[];
+}
+
+/**
+ * One WebSocket connection for the whole app, open while signed in
+ */
+export function SocketProvider({ children }: { children: ReactNode }) {
+  const socketRef = useRef<Socket | null>(null);
+  // Ticket id -> number of open subscribers, replayed on every (re)connect
+  const subscriptionsRef = useRef(new Map<string, number>());
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const queryClient = useQueryClient();
+  const { session } = useAuth();
+  const accessToken = session?.access_token ?? null;
+  const userId = session?.user.id ?? null;
+  // Read on every (re)connect, so a refreshed token doesn't need a new socket
+  const tokenRef = useRef(accessToken);
+
+  useEffect(() => {
+    tokenRef.current = accessToken;
+  }, [accessToken]);
+
+  useEffect(() => {
+    // Don't connect if not authenticated
+    if (!userId) {
+      console.log('WebSocket: waiting for authentication...');
+      return;
+    }
+
+    const socket = io(WS_URL, {
+      transports: ['websocket', 'polling'],
+      reconnection: true,
+      reconnectionDelay: 1000,
+      reconnectionAttempts: 10,
+      auth: (cb) => cb({ token: tokenRef.current }),
+    });
+
+    socketRef.current = socket;
+    const cache = createTicketCachePatcher(queryClient);
+    let hasConnected = false;
+    let disposed = false;
+    // Only one refresh per failed connection, so a token the server keeps rejecting can't loop
+    let refreshedToken = false;
+
+    // The server rejected the token: refresh the session and try again, or give up
+    const recoverAuth = async () => {
+      if (refreshedToken) {
+        console.warn('WebSocket: refreshed token was rejected too, sign in required');
+        setStatus('unauthorized');
+        return;
+      }
+      refreshedToken = true;
+      setStatus('reconnecting');
+
+      const { data, error } = await supabase.auth.refreshSession();
+      if (disposed) return;
+      if (error || !data.session) {
+        console.warn('WebSocket: session refresh failed, sign in required', error?.message);
+        setStatus('unauthorized');
+        return;
+      }
+      tokenRef.current = data.session.access_token;
+      socket.connect();
+    };
+
+    // The refetched lists are authoritative, so versions seen before them no longer apply
+    const refetchAll = () => {
+      void Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['tickets'] }),
+        queryClient.invalidateQueries({ queryKey: ['ticket'] }),
+      ]).then(() => cache.reset());
+    };
+
+    // Catch up on what happened while disconnected, or refetch if the server can't say
+    const resync = () => {
+      const since = cache.newestUpdate();
+      if (!since) {
+        refetchAll();
+        return;
+      }
+
+      socket
+        .timeout(SYNC_TIMEOUT)
+        .emit('tickets:sync', { since }, (err: Error | null, response?: TicketSyncResponse) => {
+          if (err || !response?.tickets) {
+            console.warn('WebSocket: resync failed, refetching tickets', err?.message);
+            refetchAll();
+            return;
+          }
+          console.log('WebSocket: resynced', response.tickets.length, 'changed,', response.deleted.length, 'deleted');
+          response.tickets.forEach((ticket) => cache.upsert(ticket));
+          response.deleted.forEach((id) => cache.remove(id));
+        });
+    };
+
+    socket.on('connect', () => {
+      console.log('WebSocket connected (authenticated)');
+      refreshedToken = false;
+      setStatus('live');
+      // The server forgets subscriptions when the connection drops
+      for (const id of subscriptionsRef.current.keys()) {
+        socket.emit('ticket:subscribe', { id });
+      }
+      if (hasConnected && !socket.recovered) {
+        resync();
+      }
+      hasConnected = true;
+    });
+
+    socket.on('connect_error', (error) => {
+      console.error('WebSocket connection error:', error.message);
+      // Rejected by the server (not a network problem), so no retry is coming
+      if (!socket.active) {
+        if (AUTH_ERROR.test(error.message)) {
+          void recoverAuth();
+        } else {
+          setStatus('offline');
+        }
+      }
+    });
+
+    socket.on('disconnect', (reason) => {
+      console.log('WebSocket disconnected:', reason);
+      if (reason === 'io client disconnect') return;
+      setStatus(socket.active ? 'reconnecting' : 'offline');
+    });
+
+    socket.io.on('reconnect_attempt', () => setStatus('reconnecting'));
+
+    socket.io.on('reconnect_failed', () => {
+      console.warn('WebSocket: giving up after', socket.io.reconnectionAttempts(), 'attempts');
+      setStatus('offline');
+    });
+
+    socket.on('tickets:init', (tickets: Ticket[]) => {
+      console.log('Received initial tickets:', tickets.length);
+      // Update all ticket queries (with and without filters)
+      queryClient.setQueryData(['tickets'], tickets);
+      queryClient.setQueryData(['tickets', undefined], tickets);
+      cache.reset();
+    });
+
+    // Changes are patched into every cached list rather than refetching them
+    socket.on('ticket:created', (ticket: Ticket) => {
+      console.log('Ticket created:', ticket.id);
+      cache.upsert(ticket);
+    });
+
+    socket.on('ticket:updated', (ticket: Ticket) => {
+      if (cache.upsert(ticket)) {
+        console.log('Ticket updated:', ticket.id);
+      } else {
+        console.log('Ignoring out-of-order update:', ticket.id);
+      }
+    });
+
+    socket.on('ticket:reordered', (data: TicketPositionPatch) => {
+      console.log('Ticket reordered:', data.id);
+      cache.patchPosition(data);
+    });
+
+    socket.on('ticket:deleted', (data: { id: string }) => {
+      console.log('Ticket deleted:', data.id);
+      cache.remove(data.id);
+    });
+
+    // Sprints change rarely, so their list is simply refetched
+    const refetchSprints = (sprint: { project: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['sprints', sprint.project] });
+    };
+    socket.on('sprint:created', refetchSprints);
+    socket.on('sprint:updated', refetchSprints);
+    socket.on('sprint:deleted', refetchSprints);
+
+    return () => {
+      disposed = true;
+      socket.disconnect();
+      socketRef.current = null;
+    };
+  }, [queryClient, userId]);
+
+  // Hand a refreshed token to the open connection instead of reconnecting
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!accessToken || !socket?.connected) return;
+
+    socket
+      .timeout(SYNC_TIMEOUT)
+      .emit('auth:refresh', { token: accessToken }, (err: Error | null, response?: { ok: boolean; error?: string }) => {
+        if (err) {
+          // Still connected with the old token, and the next reconnect sends the new one
+          console.warn('WebSocket: no answer to auth:refresh', err.message);
+        } else if (!response?.ok) {
+          console.warn('WebSocket: server rejected refreshed token', response?.error);
+        }
+      });
+  }, [accessToken]);
+
+  const subscribeToTicket = useCallback((id: string) => {
+    const subscriptions = subscriptionsRef.current;
+    const count = subscriptions.get(id) ?? 0;
+    subscriptions.set(id, count + 1);
+    // Otherwise the connect handler sends it
+    if (count === 0 && socketRef.current?.connected) {
+      socketRef.current.emit('ticket:subscribe', { id });
+    }
+  }, []);
+
+  const unsubscribeFromTicket = useCallback((id: string) => {
+    const subscriptions = subscriptionsRef.current;
+    const count = subscriptions.get(id) ?? 0;
+    if (count > 1) {
+      subscriptions.set(id, count - 1);
+      return;
+    }
+    subscriptions.delete(id);
+    if (count === 1 && socketRef.current?.connected) {
+      socketRef.current.emit('ticket:unsubscribe', { id });
+    }
+  }, []);
+
+  // Start over after giving up, or skip the wait for the next attempt
+  const reconnect = useCallback(() => {
+    const socket = socketRef.current;
+    if (!socket || socket.connected) return;
+    setStatus('reconnecting');
+    socket.disconnect().connect();
+  }, []);
+
+  const value = useMemo(
+    () => ({ status, reconnect, subscribeToTicket, unsubscribeFromTicket }),
+    [status, reconnect, subscribeToTicket, unsubscribeFromTicket]
+  );
+
+  return <SocketContext.Provider value={value}>{children}</SocketContext.Provider>;
+}
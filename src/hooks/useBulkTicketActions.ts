@@ -0,0 +1,230 @@
+import { useQueryClient } from '@tanstack/react-query';
+import type { Ticket, TicketStatus, TicketUpdate } from '../types/ticket';
+import type { Workflow } from '../types/workflow';
+import { useAuth } from '../contexts/AuthContext';
+import { useDeleteTicket, useMoveTicket, useReorderTicket, useUpdateTicket } from './useTickets';
+import { projectMembersQuery } from './useProjects';
+import { useGroomingQueue } from './useGroomingQueue';
+import { mergeBulkResults, partitionTickets } from '../lib/bulkActions';
+import type { BulkResult } from '../lib/bulkActions';
+import { checkWipLimitForTickets, findWorkflowStatus, unmetEntryRules } from '../lib/workflow';
+import { applyTicketUpdate } from '../lib/ticketCache';
+import { planLaneRanks } from '../lib/rank';
+
+interface BulkTicketActionsOptions {
+  workflows: Record<string, Workflow>;
+  // Tickets WIP limits are counted against
+  wipTickets: Ticket[];
+  labelOf: (status: TicketStatus) => string;
+  // A change the server rejected after it was sent
+  onError: (message: string) => void;
+}
+
+// Where in a lane a group of tickets is dropped
+export interface BulkDropPosition {
+  // The lane's other tickets, in order
+  lane: Ticket[];
+  index: number;
+}
+
+export interface BulkUpdateResult extends BulkResult {
+  // Ids of the tickets the server has taken the change for, once it has answered for all of them.
+  // Changes queued offline only settle after they're sent.
+  synced: Promise<Set<string>>;
+}
+
+/**
+ * Changes applied to many tickets at once. Each skips the tickets the user
+ * isn't allowed to change and reports them in its result.
+ */
+export function useBulkTicketActions({ workflows, wipTickets, labelOf, onError }: BulkTicketActionsOptions) {
+  const queryClient = useQueryClient();
+  const { canEdit, canDelete, canEditProject, canDeleteInProject, canManageProject } = useAuth();
+  const updateTicket = useUpdateTicket();
+  const deleteTicket = useDeleteTicket();
+  const moveTicket = useMoveTicket();
+  const reorderTicket = useReorderTicket();
+  const { queue } = useGroomingQueue();
+
+  const editBlocker = (project: string) => {
+    if (!canEdit) return 'Editor or Admin role required';
+    if (!canEditProject(project)) return `no Member access to ${project}`;
+    return null;
+  };
+
+  const statusBlocker = (project: string, status: TicketStatus) => {
+    const workflow = workflows[project];
+    if (workflow && !findWorkflowStatus(workflow, status)) return `${project} has no "${labelOf(status)}" status`;
+    return null;
+  };
+
+  // Projects that block over their WIP limit are skipped; warnings ask once for all of them
+  const applyWipLimits = (result: BulkResult, status: TicketStatus): BulkResult => {
+    const blocked = new Set<string>();
+    const warnings: string[] = [];
+    for (const project of new Set(result.done.map((t) => t.project))) {
+      const workflow = workflows[project];
+      const moving = result.done.filter((t) => t.project === project);
+      const usage = workflow && checkWipLimitForTickets(wipTickets, workflow, moving, status);
+      if (!usage) continue;
+      if (workflow.wipPolicy === 'block') {
+        blocked.add(project);
+      } else {
+        warnings.push(`${project} (${usage.count} of ${usage.limit})`);
+      }
+    }
+
+    if (warnings.length > 0) {
+      const message = `${labelOf(status)} would go over its WIP limit in ${warnings.join(', ')}. Move them anyway?`;
+      if (!window.confirm(message)) {
+        return mergeBulkResults(result, partitionTickets(result.done, () => `over the ${labelOf(status)} WIP limit`));
+      }
+    }
+    return mergeBulkResults(
+      result,
+      partitionTickets(result.done, (t) => (blocked.has(t.project) ? `${labelOf(status)} is at its WIP limit` : null))
+    );
+  };
+
+  // Tickets the status's entry rules refuse are skipped, unless the user owns
+  // their project and agrees to override; returns the overridden ticket ids too
+  const applyEntryRules = (result: BulkResult, status: TicketStatus): [BulkResult, Set<string>] => {
+    const unmet = new Map(
+      result.done.map((t) => [t.id, workflows[t.project] ? unmetEntryRules(workflows[t.project], t, status) : []])
+    );
+    const unmetFor = (t: Ticket) => unmet.get(t.id) ?? [];
+    const overridable = result.done.filter((t) => unmetFor(t).length > 0 && canManageProject(t.project));
+
+    const overridden = new Set<string>();
+    if (overridable.length > 0) {
+      const ids = overridable.map((t) => t.id).join(', ');
+      const message =
+        `${ids} ${overridable.length === 1 ? "doesn't" : "don't"} meet the entry rules for ${labelOf(status)}. ` +
+        'As a project owner you can override them. Move anyway?';
+      if (window.confirm(message)) overridable.forEach((t) => overridden.add(t.id));
+    }
+
+    const checked = partitionTickets(result.done, (t) =>
+      unmetFor(t).length > 0 && !overridden.has(t.id) ? `needs ${unmetFor(t).join(', ')}` : null
+    );
+    return [mergeBulkResults(result, checked), overridden];
+  };
+
+  // Per-call mutate callbacks only fire for the last call, so each change gets its own promise
+  const reportError = (ticket: Ticket) => (err: Error) => onError(`Couldn't change ${ticket.id}: ${err.message}`);
+
+  /**
+   * Move tickets to a status, at a position in its lane when dropped there.
+   * `change` is what's changing along with the status, already sent separately.
+   */
+  const move = (
+    tickets: Ticket[],
+    status: TicketStatus,
+    position?: BulkDropPosition,
+    change?: TicketUpdate
+  ): BulkResult => {
+    const moving = change ? tickets.map((t) => applyTicketUpdate(t, change)) : tickets;
+    const [allowed, overridden] = applyEntryRules(
+      partitionTickets(moving, (t) => editBlocker(t.project) ?? statusBlocker(t.project, status)),
+      status
+    );
+    const result = applyWipLimits(allowed, status);
+    const optionsFor = (t: Ticket) => ({ asMoved: change, overrideRules: overridden.has(t.id) });
+
+    if (position && result.done.length > 0) {
+      const { ranks, laneOrder } = planLaneRanks(
+        position.lane,
+        position.index,
+        result.done.map((t) => t.id)
+      );
+      // A lane that needs renumbering is renumbered once, with the first move
+      result.done.forEach((t, i) =>
+        reorderTicket(t.id, status, ranks[i], { ...optionsFor(t), laneOrder: i === 0 ? laneOrder : undefined })
+      );
+    } else {
+      result.done.filter((t) => t.status !== status).forEach((t) => moveTicket(t.id, status, optionsFor(t)));
+    }
+    return result;
+  };
+
+  /** Set the same fields on every ticket */
+  const update = async (tickets: Ticket[], change: TicketUpdate): Promise<BulkUpdateResult> => {
+    const target = change.project;
+    let result = partitionTickets(tickets, (t) => {
+      if (target && target !== t.project) {
+        return editBlocker(t.project) ?? editBlocker(target) ?? statusBlocker(target, t.status);
+      }
+      return editBlocker(t.project);
+    });
+
+    // Assignees must belong to the ticket's project, whichever that ends up being
+    const assignee = change.assignee !== undefined ? change.assignee : null;
+    const members = new Map<string, string[] | Error>();
+    if (assignee || target) {
+      for (const project of new Set(result.done.map((t) => target ?? t.project))) {
+        try {
+          const list = await queryClient.fetchQuery(projectMembersQuery(project));
+          members.set(project, list.map((m) => m.email));
+        } catch (err) {
+          members.set(project, err instanceof Error ? err : new Error(`Failed to load ${project} members`));
+        }
+      }
+    }
+
+    if (assignee) {
+      result = mergeBulkResults(
+        result,
+        partitionTickets(result.done, (t) => {
+          const project = target ?? t.project;
+          const emails = members.get(project);
+          if (emails instanceof Error) return emails.message;
+          return emails?.includes(assignee) ? null : `${assignee} isn't a member of ${project}`;
+        })
+      );
+    }
+
+    const sent = result.done.map((ticket) => {
+      const perTicket = { ...change };
+      // Moving projects drops an assignee who isn't part of the target
+      if (target && change.assignee === undefined && ticket.assignee) {
+        const emails = members.get(target);
+        if (!Array.isArray(emails) || !emails.includes(ticket.assignee)) perTicket.assignee = null;
+      }
+      return updateTicket.mutateAsync({ id: ticket.id, update: perTicket }).then(
+        () => [ticket.id],
+        (err: Error) => {
+          reportError(ticket)(err);
+          return [];
+        }
+      );
+    });
+    const synced = Promise.all(sent).then((ids) => new Set(ids.flat()));
+    return { ...result, synced };
+  };
+
+  /** Delete tickets after confirming; null when the user backed out */
+  const remove = (tickets: Ticket[]): BulkResult | null => {
+    const result = partitionTickets(tickets, (t) =>
+      canDelete || canDeleteInProject(t.project) ? null : `no permission to delete in ${t.project}`
+    );
+    if (result.done.length > 0) {
+      const ids = result.done.map((t) => t.id).join(', ');
+      if (!window.confirm(`Delete ${result.done.length} ticket${result.done.length !== 1 ? 's' : ''} (${ids})?`)) {
+        return null;
+      }
+    }
+    result.done.forEach((t) => deleteTicket.mutateAsync(t.id).catch(reportError(t)));
+    return result;
+  };
+
+  /** Add tickets to the bulk grooming queue */
+  const groom = (tickets: Ticket[]): BulkResult => {
+    const result = partitionTickets(tickets, (t) => editBlocker(t.project));
+    queue.enqueue(result.done.map((t) => t.id));
+    return result;
+  };
+
+  return { move, update, remove, groom };
+}
+
+export type BulkTicketActions = ReturnType<typeof useBulkTicketActions>;
@@ -0,0 +1,21 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import { createGroomingQueue } from '../lib/groomingQueue';
+import type { GroomingQueue } from '../lib/groomingQueue';
+
+// Provided by GroomingQueueProvider; outside it nothing can be submitted
+export const GroomingQueueContext = createContext<GroomingQueue>(
+  createGroomingQueue({
+    submit: () => Promise.reject(new Error('Grooming queue is not available')),
+    statusOf: () => undefined,
+    watch: () => () => {},
+  })
+);
+
+/**
+ * The app-wide bulk grooming queue and its current state
+ */
+export function useGroomingQueue() {
+  const queue = useContext(GroomingQueueContext);
+  const state = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+  return { ...state, queue };
+}
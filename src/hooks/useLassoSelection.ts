@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import type { PointerEvent, RefObject } from 'react';
+
+// Viewport coordinates of the rectangle being drawn
+export interface LassoRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// How far the pointer has to travel before a press becomes a lasso rather than a click
+const LASSO_THRESHOLD = 5;
+
+// Presses on these start their own interaction instead
+const INTERACTIVE = '[data-ticket-id], button, input, select, textarea, a, label';
+
+function intersects(rect: LassoRect, box: DOMRect) {
+  return (
+    box.left < rect.left + rect.width &&
+    box.right > rect.left &&
+    box.top < rect.top + rect.height &&
+    box.bottom > rect.top
+  );
+}
+
+/**
+ * Select cards by dragging a rectangle over empty board space. `onSelect`
+ * gets the ids of every card the rectangle touches as it's drawn, and whether
+ * Shift or Cmd/Ctrl was held to add to the current selection. A plain click
+ * on empty space calls `onClickEmpty`.
+ */
+export function useLassoSelection(
+  containerRef: RefObject<HTMLElement | null>,
+  onSelect: (ticketIds: string[], additive: boolean) => void,
+  onClickEmpty: () => void
+) {
+  const [rect, setRect] = useState<LassoRect | null>(null);
+
+  const onPointerDown = (event: PointerEvent<HTMLElement>) => {
+    if (event.button !== 0 || (event.target as HTMLElement).closest(INTERACTIVE)) return;
+
+    const startX = event.clientX;
+    const startY = event.clientY;
+    const additive = event.shiftKey || event.metaKey || event.ctrlKey;
+    let drawing = false;
+
+    const handleMove = (move: globalThis.PointerEvent) => {
+      if (!drawing && Math.hypot(move.clientX - startX, move.clientY - startY) < LASSO_THRESHOLD) return;
+      drawing = true;
+      const next = {
+        left: Math.min(startX, move.clientX),
+        top: Math.min(startY, move.clientY),
+        width: Math.abs(move.clientX - startX),
+        height: Math.abs(move.clientY - startY),
+      };
+      setRect(next);
+
+      const cards = containerRef.current?.querySelectorAll<HTMLElement>('[data-ticket-id]') ?? [];
+      onSelect(
+        [...cards].filter((card) => intersects(next, card.getBoundingClientRect())).map((card) => card.dataset.ticketId!),
+        additive
+      );
+    };
+
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      setRect(null);
+      if (!drawing && !additive) onClickEmpty();
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  return { rect, onPointerDown };
+}
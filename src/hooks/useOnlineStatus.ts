@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react';
+import { onlineManager } from '@tanstack/react-query';
+
+/**
+ * Whether the browser has a network connection, as TanStack Query sees it.
+ * Mutations made while this is false are queued until it comes back.
+ */
+export function useOnlineStatus() {
+  return useSyncExternalStore(
+    (onChange) => onlineManager.subscribe(onChange),
+    () => onlineManager.isOnline()
+  );
+}
@@ -0,0 +1,73 @@
+import { useCallback, useMemo } from 'react';
+import { queryOptions, useQuery } from '@tanstack/react-query';
+import { fetchAllProjects, fetchProjectActivity, fetchProjectMembers } from '../api/projects';
+import { useAuth } from '../contexts/AuthContext';
+
+export function projectMembersQuery(projectName: string) {
+  return queryOptions({
+    queryKey: ['projectMembers', projectName],
+    queryFn: () => fetchProjectMembers(projectName),
+    staleTime: 60000,
+  });
+}
+
+export function useProjectMembers(projectName: string | null | undefined) {
+  return useQuery({
+    ...projectMembersQuery(projectName ?? ''),
+    enabled: !!projectName,
+  });
+}
+
+/**
+ * Every project in the system, for admins
+ */
+export function useAllProjects(enabled: boolean) {
+  return useQuery({
+    queryKey: ['allProjects'],
+    queryFn: fetchAllProjects,
+    staleTime: 60000,
+    enabled,
+  });
+}
+
+export function useProjectActivity(projectName: string) {
+  return useQuery({
+    queryKey: ['projectActivity', projectName],
+    queryFn: () => fetchProjectActivity(projectName),
+    staleTime: 30000,
+  });
+}
+
+/**
+ * Drops items from projects the user isn't a member of. Admins see
+ * everything; items without a project count as Uncategorized.
+ */
+export function useProjectAccessFilter() {
+  const { role, hasProjectAccess } = useAuth();
+
+  return useCallback(
+    <T extends { project: string }>(items: T[]): T[] =>
+      role === 'admin' ? items : items.filter((item) => hasProjectAccess(item.project || 'Uncategorized')),
+    [role, hasProjectAccess]
+  );
+}
+
+/**
+ * Projects the user can pick, sorted. Admins get every project plus any only
+ * known from `tickets`; everyone else their own projects.
+ */
+export function useVisibleProjects(tickets: Array<{ project: string }>) {
+  const { role, accessibleProjectNames } = useAuth();
+  const { data: allProjects } = useAllProjects(role === 'admin');
+
+  return useMemo(() => {
+    if (role === 'admin') {
+      const unique = new Set([
+        ...(allProjects ?? []).map((p) => p.name),
+        ...tickets.map((t) => t.project || 'Uncategorized'),
+      ]);
+      return [...unique].sort();
+    }
+    return [...accessibleProjectNames].sort();
+  }, [tickets, role, accessibleProjectNames, allProjects]);
+}
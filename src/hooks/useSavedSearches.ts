@@ -0,0 +1,48 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createSavedSearch, deleteSavedSearch, fetchSavedSearches } from '../api/savedSearches';
+import type { SavedSearch } from '../api/savedSearches';
+import { useAuth } from '../contexts/AuthContext';
+
+// Keyed by user so switching accounts in the same tab never shows someone else's searches
+function savedSearchesKey(userId: string | undefined) {
+  return ['savedSearches', userId] as const;
+}
+
+export function useSavedSearches() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: savedSearchesKey(user?.id),
+    queryFn: fetchSavedSearches,
+    enabled: !!user,
+    staleTime: 5 * 60000,
+  });
+}
+
+export function useCreateSavedSearch() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: createSavedSearch,
+    onSuccess: (search) => {
+      queryClient.setQueryData<SavedSearch[]>(savedSearchesKey(user?.id), (old) =>
+        old ? [...old, search] : [search]
+      );
+    },
+  });
+}
+
+export function useDeleteSavedSearch() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: deleteSavedSearch,
+    onSuccess: (_data, id) => {
+      queryClient.setQueryData<SavedSearch[]>(savedSearchesKey(user?.id), (old) =>
+        old?.filter((s) => s.id !== id)
+      );
+    },
+  });
+}
@@ -0,0 +1,104 @@
+import { useCallback } from 'react';
+import { queryOptions, useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { UseQueryResult } from '@tanstack/react-query';
+import { createSprint, deleteSprint, fetchSprintScope, fetchSprints, updateSprint } from '../api/sprints';
+import type { Sprint, SprintInput } from '../types/sprint';
+import type { Ticket } from '../types/ticket';
+import { currentSprint } from '../lib/sprints';
+
+export function sprintsQuery(projectName: string) {
+  return queryOptions({
+    queryKey: ['sprints', projectName],
+    queryFn: () => fetchSprints(projectName),
+    staleTime: 5 * 60000,
+  });
+}
+
+export function useSprints(projectName: string | null | undefined) {
+  return useQuery({
+    ...sprintsQuery(projectName ?? ''),
+    enabled: !!projectName,
+  });
+}
+
+/**
+ * When tickets joined or left a sprint, for its burndown. Membership changes
+ * don't update it live; it's refetched when it goes stale.
+ */
+export function useSprintScope(sprintId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['sprintScope', sprintId],
+    queryFn: () => fetchSprintScope(sprintId!),
+    enabled: !!sprintId,
+    staleTime: 60000,
+  });
+}
+
+/**
+ * The running sprint of each project that has one
+ */
+export function useCurrentSprints(projectNames: string[]): Record<string, Sprint> {
+  const combine = useCallback(
+    (results: Array<UseQueryResult<Sprint[]>>) => {
+      const sprints: Record<string, Sprint> = {};
+      projectNames.forEach((name, i) => {
+        const sprint = currentSprint(results[i]?.data ?? []);
+        if (sprint) sprints[name] = sprint;
+      });
+      return sprints;
+    },
+    [projectNames]
+  );
+
+  return useQueries({
+    queries: projectNames.map((name) => sprintsQuery(name)),
+    combine,
+  });
+}
+
+function replaceSprint(sprint: Sprint) {
+  return (old: Sprint[] | undefined) => old?.map((s) => (s.id === sprint.id ? sprint : s));
+}
+
+export function useCreateSprint(projectName: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (sprint: SprintInput) => createSprint(projectName, sprint),
+    onSuccess: (sprint) => {
+      queryClient.setQueryData<Sprint[]>(sprintsQuery(projectName).queryKey, (old) =>
+        old ? [...old, sprint] : [sprint]
+      );
+    },
+  });
+}
+
+export function useUpdateSprint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, sprint }: { id: string; sprint: Partial<SprintInput> }) => updateSprint(id, sprint),
+    onSuccess: (sprint) => {
+      queryClient.setQueryData<Sprint[]>(sprintsQuery(sprint.project).queryKey, replaceSprint(sprint));
+    },
+  });
+}
+
+export function useDeleteSprint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (sprint: Sprint) => deleteSprint(sprint.id),
+    onSuccess: (_data, sprint) => {
+      queryClient.setQueryData<Sprint[]>(sprintsQuery(sprint.project).queryKey, (old) =>
+        old?.filter((s) => s.id !== sprint.id)
+      );
+      // The server moved its tickets back to the backlog
+      queryClient.setQueriesData<Ticket[]>({ queryKey: ['tickets'] }, (old) =>
+        old?.some((t) => t.sprintId === sprint.id)
+          ? old.map((t) => (t.sprintId === sprint.id ? { ...t, sprintId: null } : t))
+          : old
+      );
+    },
+  });
+}
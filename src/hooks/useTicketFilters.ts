@@ -0,0 +1,50 @@
+import { useCallback, useMemo } from 'react';
+import { useMatch, useNavigate, useSearchParams } from 'react-router-dom';
+import { EMPTY_FILTERS, parseFilterParams, toFilterParams } from '../lib/ticketFilters';
+import type { TicketFilters } from '../lib/ticketFilters';
+import { projectPath } from '../lib/routes';
+
+/**
+ * Board filters stored in the URL, so a filtered board can be reloaded or
+ * shared as a link. The project is the `/projects/:name` path, everything
+ * else lives in the query string.
+ */
+export function useTicketFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const projectMatch = useMatch('/projects/:projectName/*');
+  const project = projectMatch?.params.projectName ?? null;
+
+  const filters = useMemo<TicketFilters>(
+    () => ({ ...parseFilterParams(searchParams), project }),
+    [searchParams, project]
+  );
+
+  const setFilters = useCallback(
+    (patch: Partial<TicketFilters>) => {
+      // Switching project is a navigation, so each project gets its own history entry
+      if (patch.project !== undefined && patch.project !== project) {
+        const next = toFilterParams({ ...parseFilterParams(searchParams), ...patch }, searchParams);
+        navigate({
+          pathname: patch.project ? projectPath(patch.project) : '/',
+          search: next.toString(),
+        });
+        return;
+      }
+
+      setSearchParams(
+        (prev) => toFilterParams({ ...parseFilterParams(prev), ...patch }, prev),
+        // Typing in the search box shouldn't add a history entry per keystroke
+        { replace: Object.keys(patch).length === 1 && 'search' in patch }
+      );
+    },
+    [project, searchParams, navigate, setSearchParams]
+  );
+
+  // Keeps the project, which is picked separately from the other filters
+  const clearFilters = useCallback(() => {
+    setSearchParams((prev) => toFilterParams(EMPTY_FILTERS, prev));
+  }, [setSearchParams]);
+
+  return { filters, setFilters, clearFilters };
+}
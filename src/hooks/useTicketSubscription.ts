@@ -0,0 +1,16 @@
+import { useEffect } from 'react';
+import { useSocket } from './useSocket';
+
+/**
+ * Receive `ticket:updated` events for one ticket while the calling component
+ * is mounted, even when the ticket isn't in a list the server broadcasts
+ */
+export function useTicketSubscription(id: string | null | undefined) {
+  const { subscribeToTicket, unsubscribeFromTicket } = useSocket();
+
+  useEffect(() => {
+    if (!id) return;
+    subscribeToTicket(id);
+    return () => unsubscribeFromTicket(id);
+  }, [id, subscribeToTicket, unsubscribeFromTicket]);
+}
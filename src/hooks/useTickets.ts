@@ -1,120 +1,452 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { fetchTickets, updateTicket, createTicket, deleteTicket, triggerGrooming, moveTicket } from '../api/tickets';
-import type { Ticket, TicketStatus, TicketUpdate } from '../types/ticket';
+import { keepPreviousData, onlineManager, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { QueryClient, QueryKey } from '@tanstack/react-query';
+import { fetchTicket, fetchTickets, TicketAccessError, TicketConflictError, updateTicket, createTicket, deleteTicket, triggerGrooming, moveTicket, reorderTicket, fetchGroomingAttempts, cancelGrooming, markGroomingManual, fetchTicketTransitions } from '../api/tickets';
+import type { GroomingInfo, Priority, Ticket, TicketStatus, TicketUpdate } from '../types/ticket';
+import { addSyncIssue } from '../lib/syncIssues';
+import { applyTicketUpdate, findCachedTicket } from '../lib/ticketCache';
+import { unmetEntryRules } from '../lib/workflow';
+import { laneOrderRanks } from '../lib/rank';
+import { projectWorkflowQuery } from './useWorkflows';
+import type { SyncIssueKind } from '../lib/syncIssues';
 
-export function useTickets(filters?: { project?: string }) {
+type TicketListSnapshot = Array<[QueryKey, Ticket[] | undefined]>;
+
+/**
+ * Apply an optimistic change to every cached ticket list (filtered or not)
+ * and return a snapshot for rollback
+ */
+async function patchTicketLists(
+  queryClient: QueryClient,
+  patch: (tickets: Ticket[]) => Ticket[]
+): Promise<TicketListSnapshot> {
+  // Cancel any outgoing refetches so they don't overwrite the optimistic state
+  await queryClient.cancelQueries({ queryKey: ['tickets'] });
+
+  const previousQueries = queryClient.getQueriesData<Ticket[]>({ queryKey: ['tickets'] });
+  queryClient.setQueriesData<Ticket[]>({ queryKey: ['tickets'] }, (old) =>
+    old ? patch(old) : old
+  );
+
+  return previousQueries;
+}
+
+function findSnapshotTicket(previousQueries: TicketListSnapshot, id: string): Ticket | undefined {
+  for (const [, tickets] of previousQueries) {
+    const ticket = tickets?.find((t) => t.id === id);
+    if (ticket) return ticket;
+  }
+  return undefined;
+}
+
+function restoreTicketLists(queryClient: QueryClient, previousQueries?: TicketListSnapshot) {
+  previousQueries?.forEach(([queryKey, data]) => {
+    queryClient.setQueryData(queryKey, data);
+  });
+}
+
+export function useTickets(filters?: { project?: string; status?: TicketStatus; priority?: Priority }) {
   return useQuery({
     queryKey: ['tickets', filters],
     queryFn: () => fetchTickets(filters),
+    // Keep the board on screen while a different filter loads
+    placeholderData: keepPreviousData,
     staleTime: 30000,
     refetchOnWindowFocus: true,
   });
 }
 
-export function useUpdateTicket() {
-  const queryClient = useQueryClient();
+/**
+ * Status history for the analytics page. Moves don't update it live; it's
+ * refetched when it goes stale.
+ */
+export function useTicketTransitions(project?: string) {
+  return useQuery({
+    queryKey: ['ticketTransitions', project ?? null],
+    queryFn: () => fetchTicketTransitions(project),
+    placeholderData: keepPreviousData,
+    staleTime: 60000,
+  });
+}
 
-  return useMutation({
-    mutationFn: ({ id, update }: { id: string; update: TicketUpdate }) =>
-      updateTicket(id, update),
-    onMutate: async ({ id, update }) => {
-      await queryClient.cancelQueries({ queryKey: ['tickets'] });
-      
-      const previousTickets = queryClient.getQueryData<Ticket[]>(['tickets']);
-      
-      // Optimistic update with new timestamp
-      queryClient.setQueryData(['tickets'], (old: Ticket[] | undefined) => {
-        if (!old) return old;
-        return old.map(ticket =>
-          ticket.id === id 
-            ? { ...ticket, ...update, updatedAt: new Date().toISOString() } 
-            : ticket
+/**
+ * A single ticket, for deep links to tickets that aren't in a loaded list
+ */
+export function useTicket(id: string | null | undefined) {
+  return useQuery({
+    queryKey: ['ticket', id],
+    queryFn: () => fetchTicket(id!),
+    enabled: !!id,
+    // Retrying won't make a missing or forbidden ticket appear
+    retry: (failureCount, error) => !(error instanceof TicketAccessError) && failureCount < 3,
+    staleTime: 30000,
+  });
+}
+
+interface UpdateTicketVariables {
+  id: string;
+  update: TicketUpdate;
+  // Fail with a TicketConflictError instead of overwriting newer changes
+  expectedUpdatedAt?: string;
+}
+
+export interface MoveTicketVariables {
+  id: string;
+  newStatus: TicketStatus;
+  overrideRules?: boolean;
+}
+
+export interface ReorderTicketVariables {
+  id: string;
+  status: TicketStatus;
+  rank: number;
+  overrideRules?: boolean;
+  // The lane's ticket ids, when it has to be renumbered to make room
+  laneOrder?: string[];
+}
+
+export interface TransitionOptions {
+  // Move even though the status's entry rules aren't met, which only project owners may do
+  overrideRules?: boolean;
+  // Fields changing along with the status, e.g. when dropped into another swimlane row
+  asMoved?: TicketUpdate;
+}
+
+export interface ReorderOptions extends TransitionOptions {
+  laneOrder?: string[];
+}
+
+export interface TicketMutationContext {
+  previousQueries: TicketListSnapshot;
+  // Made while offline, so it was queued and replayed later
+  queued: boolean;
+  // Id of the placeholder a create inserted until the server assigned one
+  tempId?: string;
+}
+
+/**
+ * Keys of the ticket mutations that are queued while offline. Their options
+ * are registered as mutation defaults so a queue restored from storage
+ * after a reload can still be replayed.
+ */
+export const TICKET_MUTATION_KEYS = {
+  update: ['tickets', 'update'],
+  move: ['tickets', 'move'],
+  reorder: ['tickets', 'reorder'],
+  create: ['tickets', 'create'],
+  delete: ['tickets', 'delete'],
+} as const;
+
+// One scope, so queued changes reach the server in the order they were made
+const TICKET_MUTATION_SCOPE = { id: 'tickets' };
+
+// Server ids of tickets created from the queue, by the temporary id changes
+// queued behind the create were made against
+const syncedTicketIds = new Map<string, string>();
+
+function resolveTicketId(id: string) {
+  return syncedTicketIds.get(id) ?? id;
+}
+
+async function optimisticPatch(
+  queryClient: QueryClient,
+  patch: (tickets: Ticket[]) => Ticket[]
+): Promise<TicketMutationContext> {
+  const queued = !onlineManager.isOnline();
+  const previousQueries = await patchTicketLists(queryClient, patch);
+  return { previousQueries, queued };
+}
+
+function patchTicket(id: string, change: TicketUpdate, position?: Pick<Ticket, 'rank'>) {
+  return (tickets: Ticket[]) =>
+    tickets.map((ticket) =>
+      ticket.id === id
+        ? { ...applyTicketUpdate(ticket, change), ...position, updatedAt: new Date().toISOString() }
+        : ticket
+    );
+}
+
+/**
+ * Register how each ticket mutation runs. Call once for the app's QueryClient,
+ * before a persisted cache is restored.
+ */
+export function registerTicketMutations(queryClient: QueryClient) {
+  // A queued change that fails once it's replayed can't be reported inline
+  const reportQueuedFailure = (
+    kind: SyncIssueKind,
+    error: Error,
+    variables: unknown,
+    context: TicketMutationContext | undefined
+  ) => {
+    if (!context?.queued) return;
+    const id = (variables as { id?: string }).id;
+    addSyncIssue({
+      kind,
+      error,
+      variables,
+      original: id ? findSnapshotTicket(context.previousQueries, id) : undefined,
+    });
+  };
+
+  queryClient.setMutationDefaults<Ticket, Error, UpdateTicketVariables, TicketMutationContext>(
+    TICKET_MUTATION_KEYS.update,
+    {
+      scope: TICKET_MUTATION_SCOPE,
+      mutationFn: ({ id, update, expectedUpdatedAt }) =>
+        updateTicket(resolveTicketId(id), update, expectedUpdatedAt),
+      onMutate: ({ id, update }) =>
+        // Optimistic update with new timestamp
+        optimisticPatch(queryClient, patchTicket(id, update)),
+      onError: (err, variables, context) => {
+        restoreTicketLists(queryClient, context?.previousQueries);
+        // The conflict response already carries the latest version
+        if (err instanceof TicketConflictError) {
+          queryClient.setQueryData(['ticket', err.current.id], err.current);
+        }
+        reportQueuedFailure('update', err, variables, context);
+      },
+      onSettled: (_data, _err, { id }) => {
+        queryClient.invalidateQueries({ queryKey: ['tickets'] });
+        queryClient.invalidateQueries({ queryKey: ['ticket', id] });
+      },
+    }
+  );
+
+  queryClient.setMutationDefaults<Ticket, Error, MoveTicketVariables, TicketMutationContext>(
+    TICKET_MUTATION_KEYS.move,
+    {
+      scope: TICKET_MUTATION_SCOPE,
+      mutationFn: ({ id, newStatus, overrideRules }) =>
+        moveTicket(resolveTicketId(id), newStatus, overrideRules),
+      onMutate: ({ id, newStatus }) =>
+        optimisticPatch(queryClient, patchTicket(id, { status: newStatus })),
+      onError: (err, variables, context) => {
+        // Rollback on error
+        restoreTicketLists(queryClient, context?.previousQueries);
+        reportQueuedFailure('move', err, variables, context);
+      },
+      onSettled: (_data, _err, { id }) => {
+        // Refetch to sync with server
+        queryClient.invalidateQueries({ queryKey: ['tickets'] });
+        queryClient.invalidateQueries({ queryKey: ['ticket', id] });
+      },
+    }
+  );
+
+  queryClient.setMutationDefaults<Ticket, Error, ReorderTicketVariables, TicketMutationContext>(
+    TICKET_MUTATION_KEYS.reorder,
+    {
+      scope: TICKET_MUTATION_SCOPE,
+      mutationFn: ({ id, status, rank, overrideRules, laneOrder }) =>
+        reorderTicket(resolveTicketId(id), {
+          status,
+          rank,
+          ...(overrideRules && { overrideRules }),
+          ...(laneOrder && { laneOrder: laneOrder.map(resolveTicketId) }),
+        }),
+      onMutate: ({ id, status, rank, laneOrder }) => {
+        const ranks = laneOrderRanks(laneOrder ?? []);
+        return optimisticPatch(queryClient, (tickets) =>
+          patchTicket(id, { status }, { rank })(tickets).map((ticket) =>
+            ranks.has(ticket.id) && ticket.id !== id ? { ...ticket, rank: ranks.get(ticket.id) } : ticket
+          )
         );
-      });
+      },
+      onError: (err, variables, context) => {
+        restoreTicketLists(queryClient, context?.previousQueries);
+        reportQueuedFailure('reorder', err, variables, context);
+      },
+      onSettled: (_data, _err, { id }) => {
+        queryClient.invalidateQueries({ queryKey: ['tickets'] });
+        queryClient.invalidateQueries({ queryKey: ['ticket', id] });
+      },
+    }
+  );
 
-      return { previousTickets };
-    },
-    onError: (_err, _variables, context) => {
-      if (context?.previousTickets) {
-        queryClient.setQueryData(['tickets'], context.previousTickets);
-      }
-    },
-    onSettled: () => {
-      queryClient.invalidateQueries({ queryKey: ['tickets'] });
-    },
+  queryClient.setMutationDefaults<Ticket, Error, Partial<Ticket>, TicketMutationContext>(
+    TICKET_MUTATION_KEYS.create,
+    {
+      scope: TICKET_MUTATION_SCOPE,
+      mutationFn: (draft) => createTicket(draft),
+      onMutate: async (draft) => {
+        // Optimistic insert with a temporary ID until the server assigns one
+        const now = new Date().toISOString();
+        const tempId = `temp-${Date.now()}`;
+        const optimisticTicket: Ticket = {
+          id: tempId,
+          title: '',
+          status: 'backlog',
+          priority: 'medium',
+          project: 'Uncategorized',
+          body: '',
+          ...draft,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        const context = await optimisticPatch(queryClient, (tickets) => [optimisticTicket, ...tickets]);
+        return { ...context, tempId };
+      },
+      onSuccess: (created, _draft, context) => {
+        if (!context?.tempId) return;
+        const { tempId } = context;
+        // Changes still queued against the placeholder are sent for the real ticket
+        syncedTicketIds.set(tempId, created.id);
+        // Keep the placeholder's queued edits on screen, under its real id
+        queryClient.setQueriesData<Ticket[]>({ queryKey: ['tickets'] }, (old) =>
+          old?.flatMap((ticket) => {
+            if (ticket.id === tempId) return [{ ...ticket, id: created.id }];
+            // Already added by a socket event
+            return ticket.id === created.id ? [] : [ticket];
+          })
+        );
+      },
+      onError: (err, variables, context) => {
+        restoreTicketLists(queryClient, context?.previousQueries);
+        reportQueuedFailure('create', err, variables, context);
+      },
+      onSettled: () => {
+        queryClient.invalidateQueries({ queryKey: ['tickets'] });
+      },
+    }
+  );
+
+  queryClient.setMutationDefaults<void, Error, string, TicketMutationContext>(
+    TICKET_MUTATION_KEYS.delete,
+    {
+      scope: TICKET_MUTATION_SCOPE,
+      mutationFn: (id) => deleteTicket(resolveTicketId(id)),
+      // Removed right away so a delete made offline shows on the board
+      onMutate: (id) => optimisticPatch(queryClient, (tickets) => tickets.filter((t) => t.id !== id)),
+      onError: (err, id, context) => {
+        restoreTicketLists(queryClient, context?.previousQueries);
+        reportQueuedFailure('delete', err, { id }, context);
+      },
+      onSettled: () => {
+        queryClient.invalidateQueries({ queryKey: ['tickets'] });
+      },
+    }
+  );
+}
+
+export function useUpdateTicket() {
+  return useMutation<Ticket, Error, UpdateTicketVariables, TicketMutationContext>({
+    mutationKey: TICKET_MUTATION_KEYS.update,
   });
 }
 
-export function useMoveTicket() {
+/**
+ * The entry rules of `status` that the cached ticket doesn't meet. A ticket or
+ * workflow that isn't loaded can't be checked, and is left to the server.
+ */
+export function useEntryRuleCheck() {
   const queryClient = useQueryClient();
 
-  const mutation = useMutation({
-    mutationFn: ({ id, newStatus }: { id: string; newStatus: TicketStatus }) =>
-      moveTicket(id, newStatus),
-    onMutate: async ({ id, newStatus }) => {
-      // Cancel any outgoing refetches
-      await queryClient.cancelQueries({ queryKey: ['tickets'] });
-      
-      const previousTickets = queryClient.getQueryData<Ticket[]>(['tickets']);
-      
-      // Optimistic update with new timestamp
-      queryClient.setQueryData(['tickets'], (old: Ticket[] | undefined) => {
-        if (!old) return old;
-        return old.map(ticket =>
-          ticket.id === id 
-            ? { ...ticket, status: newStatus, updatedAt: new Date().toISOString() } 
-            : ticket
-        );
-      });
+  return (ticketId: string, status: TicketStatus, asMoved?: TicketUpdate): string[] => {
+    const cached = findCachedTicket(queryClient, ticketId);
+    if (!cached) return [];
+    const ticket = asMoved ? applyTicketUpdate(cached, asMoved) : cached;
+    const workflow = queryClient.getQueryData(projectWorkflowQuery(ticket.project).queryKey);
+    return workflow ? unmetEntryRules(workflow, ticket, status) : [];
+  };
+}
 
-      return { previousTickets };
-    },
-    onError: (_err, _variables, context) => {
-      // Rollback on error
-      if (context?.previousTickets) {
-        queryClient.setQueryData(['tickets'], context.previousTickets);
-      }
-    },
-    onSettled: () => {
-      // Refetch to sync with server
-      queryClient.invalidateQueries({ queryKey: ['tickets'] });
-    },
+/**
+ * Returns a function that moves a ticket to another status, unless the status's
+ * entry rules aren't met: then nothing is sent and the unmet rules are returned
+ */
+export function useMoveTicket() {
+  const mutation = useMutation<Ticket, Error, MoveTicketVariables, TicketMutationContext>({
+    mutationKey: TICKET_MUTATION_KEYS.move,
   });
+  const checkEntryRules = useEntryRuleCheck();
 
-  return (ticketId: string, newStatus: TicketStatus) => {
-    mutation.mutate({ id: ticketId, newStatus });
+  return (ticketId: string, newStatus: TicketStatus, options: TransitionOptions = {}): string[] => {
+    const unmet = checkEntryRules(ticketId, newStatus, options.asMoved);
+    if (unmet.length > 0 && !options.overrideRules) return unmet;
+    mutation.mutate({ id: ticketId, newStatus, ...(unmet.length > 0 && { overrideRules: true }) });
+    return [];
   };
 }
 
-export function useCreateTicket() {
-  const queryClient = useQueryClient();
+/**
+ * Like useMoveTicket, also placing the ticket at `rank` within its lane
+ */
+export function useReorderTicket() {
+  const mutation = useMutation<Ticket, Error, ReorderTicketVariables, TicketMutationContext>({
+    mutationKey: TICKET_MUTATION_KEYS.reorder,
+  });
+  const checkEntryRules = useEntryRuleCheck();
 
-  return useMutation({
-    mutationFn: createTicket,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['tickets'] });
-    },
+  return (ticketId: string, status: TicketStatus, rank: number, options: ReorderOptions = {}): string[] => {
+    const unmet = checkEntryRules(ticketId, status, options.asMoved);
+    if (unmet.length > 0 && !options.overrideRules) return unmet;
+    mutation.mutate({
+      id: ticketId,
+      status,
+      rank,
+      ...(unmet.length > 0 && { overrideRules: true }),
+      ...(options.laneOrder && { laneOrder: options.laneOrder }),
+    });
+    return [];
+  };
+}
+
+export function useCreateTicket() {
+  return useMutation<Ticket, Error, Partial<Ticket>, TicketMutationContext>({
+    mutationKey: TICKET_MUTATION_KEYS.create,
   });
 }
 
 export function useDeleteTicket() {
+  return useMutation<void, Error, string, TicketMutationContext>({
+    mutationKey: TICKET_MUTATION_KEYS.delete,
+  });
+}
+
+export function useTriggerGrooming() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: deleteTicket,
-    onSuccess: () => {
+    mutationFn: triggerGrooming,
+    onSuccess: (_data, id) => {
       queryClient.invalidateQueries({ queryKey: ['tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['ticket', id] });
+      queryClient.invalidateQueries({ queryKey: ['groomingAttempts', id] });
     },
   });
 }
 
-export function useTriggerGrooming() {
+/**
+ * Every grooming run for a ticket. The key includes the ticket's grooming
+ * state, so a socket update about a new attempt refetches the history.
+ */
+export function useGroomingAttempts(ticketId: string | undefined, grooming: GroomingInfo | undefined) {
+  return useQuery({
+    queryKey: ['groomingAttempts', ticketId, grooming?.status, grooming?.attempts],
+    queryFn: () => fetchGroomingAttempts(ticketId!),
+    enabled: !!ticketId && !!grooming,
+    // Keep the list on screen while the next state loads
+    placeholderData: keepPreviousData,
+  });
+}
+
+function useGroomingChange(mutationFn: (id: string) => Promise<Ticket>) {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: triggerGrooming,
-    onSuccess: () => {
+    mutationFn,
+    onSuccess: (ticket) => {
+      queryClient.setQueryData(['ticket', ticket.id], ticket);
       queryClient.invalidateQueries({ queryKey: ['tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['groomingAttempts', ticket.id] });
     },
   });
 }
+
+export function useCancelGrooming() {
+  return useGroomingChange(cancelGrooming);
+}
+
+export function useMarkGroomingManual() {
+  return useGroomingChange(markGroomingManual);
+}
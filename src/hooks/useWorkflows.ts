@@ -0,0 +1,94 @@
+import { useCallback, useMemo } from 'react';
+import { queryOptions, useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { UseQueryResult } from '@tanstack/react-query';
+import { fetchProjectWorkflow, updateProjectWorkflow } from '../api/projects';
+import type { Ticket } from '../types/ticket';
+import type { Workflow } from '../types/workflow';
+import { buildBoardColumns, defaultWorkflow } from '../lib/workflow';
+import { useAuth } from '../contexts/AuthContext';
+
+export function projectWorkflowQuery(projectName: string) {
+  return queryOptions({
+    queryKey: ['workflow', projectName],
+    queryFn: async () => (await fetchProjectWorkflow(projectName)) ?? defaultWorkflow(projectName),
+    staleTime: 5 * 60000,
+  });
+}
+
+/**
+ * Workflow for one project, falling back to the default while loading or on error
+ */
+export function useProjectWorkflow(projectName: string | null | undefined): Workflow {
+  const { data } = useQuery({
+    ...projectWorkflowQuery(projectName ?? ''),
+    enabled: !!projectName,
+  });
+  return data ?? defaultWorkflow(projectName ?? '');
+}
+
+/**
+ * Workflows for several projects, keyed by project name.
+ * Pass a memoized `projectNames` array so the result stays referentially stable.
+ */
+export function useProjectWorkflows(projectNames: string[]): Record<string, Workflow> {
+  const combine = useCallback(
+    (results: Array<UseQueryResult<Workflow>>) => {
+      const workflows: Record<string, Workflow> = {};
+      projectNames.forEach((name, i) => {
+        workflows[name] = results[i]?.data ?? defaultWorkflow(name);
+      });
+      return workflows;
+    },
+    [projectNames]
+  );
+
+  return useQueries({
+    queries: projectNames.map((name) => projectWorkflowQuery(name)),
+    combine,
+  });
+}
+
+/**
+ * Ordered board columns for the given projects' workflows plus any unknown
+ * statuses found on the tickets
+ */
+export function useBoardColumns(projectNames: string[], tickets: Ticket[]) {
+  const workflows = useProjectWorkflows(projectNames);
+
+  const columns = useMemo(
+    () => buildBoardColumns(projectNames.map((name) => workflows[name]), tickets),
+    [projectNames, workflows, tickets]
+  );
+
+  return { columns, workflows };
+}
+
+export function useUpdateProjectWorkflow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (workflow: Workflow) => updateProjectWorkflow(workflow.project, workflow),
+    onSuccess: (workflow) => {
+      queryClient.setQueryData(['workflow', workflow.project], workflow);
+    },
+  });
+}
+
+/**
+ * What to do about a move refused by the target status's entry rules:
+ * project owners are asked whether to override, everyone else gets `message`
+ * back with a note that only an owner can
+ */
+export function useEntryRuleOverride() {
+  const { canManageProject } = useAuth();
+
+  return (project: string, message: string): { override: boolean; notice: string | null } => {
+    if (!canManageProject(project)) {
+      return { override: false, notice: `${message} Only a ${project} owner can override this.` };
+    }
+    if (window.confirm(`${message}\n\nAs a ${project} owner you can override this. Move it anyway?`)) {
+      return { override: true, notice: null };
+    }
+    return { override: false, notice: message };
+  };
+}
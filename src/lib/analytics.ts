@@ -0,0 +1,227 @@
+import { eachDayOfInterval, eachWeekOfInterval, endOfDay, startOfWeek } from 'date-fns';
+import type { Ticket, TicketStatus, TicketTransition } from '../types/ticket';
+import type { Workflow, WorkflowCategory } from '../types/workflow';
+import { defaultWorkflow, findWorkflowStatus } from './workflow';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weeks start on Monday
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+// A stretch of time a ticket spent in one status; `end` is null while it's still there
+export interface StatusPeriod {
+  status: TicketStatus;
+  category: WorkflowCategory;
+  start: number;
+  end: number | null;
+}
+
+export interface TicketTimeline {
+  ticket: Ticket;
+  periods: StatusPeriod[];
+}
+
+export interface CumulativeFlowDay {
+  day: number;
+  counts: Record<string, number>;
+}
+
+export interface ThroughputWeek {
+  week: number;
+  count: number;
+}
+
+// How long a finished ticket took, in milliseconds
+export interface FlowTime {
+  ticket: Ticket;
+  finishedAt: number;
+  // From creation to done
+  leadTime: number;
+  // From first starting work to done; null when it skipped in-progress statuses
+  cycleTime: number | null;
+  // Total time in in-progress statuses, counting each time it went back there
+  inProgressTime: number;
+}
+
+export interface Percentiles {
+  p50: number;
+  p85: number;
+  p95: number;
+}
+
+export interface FlowTimeSummary {
+  project: string;
+  finished: number;
+  lead: Percentiles;
+  cycle: Percentiles | null;
+}
+
+// Statuses no workflow defines count as to-do, like their board columns
+function statusCategory(workflows: Record<string, Workflow>, project: string, status: TicketStatus): WorkflowCategory {
+  const workflow = workflows[project] ?? defaultWorkflow(project);
+  return findWorkflowStatus(workflow, status)?.category ?? 'todo';
+}
+
+/**
+ * Replay each ticket's transitions into the periods it spent in each status.
+ * A ticket without a creation transition is taken to have started in the
+ * status of its first move.
+ */
+export function buildTimelines(
+  tickets: Ticket[],
+  transitions: TicketTransition[],
+  workflows: Record<string, Workflow>
+): TicketTimeline[] {
+  const byTicket = new Map<string, TicketTransition[]>();
+  for (const transition of transitions) {
+    const moves = byTicket.get(transition.ticketId) ?? [];
+    moves.push(transition);
+    byTicket.set(transition.ticketId, moves);
+  }
+
+  return tickets.map((ticket) => {
+    const project = ticket.project || 'Uncategorized';
+    const moves = (byTicket.get(ticket.id) ?? []).sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+    const periods: StatusPeriod[] = [];
+    const close = (status: TicketStatus, start: number, end: number | null) =>
+      periods.push({ status, category: statusCategory(workflows, project, status), start, end });
+
+    let status = moves[0] ? (moves[0].from ?? moves[0].to) : ticket.status;
+    let start = Date.parse(ticket.createdAt);
+    for (const move of moves) {
+      if (move.from === null) continue;
+      const at = Date.parse(move.at);
+      close(status, start, at);
+      status = move.to;
+      start = at;
+    }
+
+    // Transitions aren't live, so the ticket may have moved since they loaded
+    if (status !== ticket.status) {
+      const at = Math.max(start, Date.parse(ticket.updatedAt));
+      close(status, start, at);
+      status = ticket.status;
+      start = at;
+    }
+    close(status, start, null);
+    return { ticket, periods };
+  });
+}
+
+/**
+ * Where the ticket was at `time`; undefined before it was created
+ */
+export function periodAt(timeline: TicketTimeline, time: number): StatusPeriod | undefined {
+  return timeline.periods.find((p) => p.start <= time && (p.end === null || p.end > time));
+}
+
+/**
+ * How many tickets were in each status at the end of every day from `from`
+ * to `to`
+ */
+export function cumulativeFlow(timelines: TicketTimeline[], from: Date, to: Date): CumulativeFlowDay[] {
+  const now = Date.now();
+  return eachDayOfInterval({ start: from, end: to }).map((day) => {
+    const time = Math.min(endOfDay(day).getTime(), now);
+    const counts: Record<string, number> = {};
+    for (const timeline of timelines) {
+      const status = periodAt(timeline, time)?.status;
+      if (status) counts[status] = (counts[status] ?? 0) + 1;
+    }
+    return { day: day.getTime(), counts };
+  });
+}
+
+/**
+ * Tickets moved into a done status each week. A ticket reopened and finished
+ * again counts each time.
+ */
+export function weeklyThroughput(timelines: TicketTimeline[], from: Date, to: Date): ThroughputWeek[] {
+  const weeks = eachWeekOfInterval({ start: from, end: to }, WEEK_OPTIONS).map((week) => ({
+    week: week.getTime(),
+    count: 0,
+  }));
+  const byWeek = new Map(weeks.map((week) => [week.week, week]));
+
+  for (const { periods } of timelines) {
+    periods.forEach((period, i) => {
+      if (i === 0 || period.category !== 'done' || periods[i - 1].category === 'done') return;
+      if (period.start < from.getTime() || period.start > to.getTime()) return;
+      const week = byWeek.get(startOfWeek(period.start, WEEK_OPTIONS).getTime());
+      if (week) week.count++;
+    });
+  }
+  return weeks;
+}
+
+/**
+ * Lead and cycle times of the tickets that are done and last finished
+ * between `from` and `to`. Tickets created as done didn't go through the
+ * workflow and are left out.
+ */
+export function flowTimes(timelines: TicketTimeline[], from: Date, to: Date): FlowTime[] {
+  const times: FlowTime[] = [];
+
+  for (const { ticket, periods } of timelines) {
+    // Start of the last unbroken run of done statuses
+    let doneIndex = periods.length;
+    while (doneIndex > 0 && periods[doneIndex - 1].category === 'done') doneIndex--;
+    if (doneIndex === periods.length || doneIndex === 0) continue;
+
+    const finishedAt = periods[doneIndex].start;
+    if (finishedAt < from.getTime() || finishedAt > to.getTime()) continue;
+
+    const before = periods.slice(0, doneIndex);
+    const started = before.find((p) => p.category === 'in-progress');
+    times.push({
+      ticket,
+      finishedAt,
+      leadTime: finishedAt - periods[0].start,
+      cycleTime: started ? finishedAt - started.start : null,
+      inProgressTime: before
+        .filter((p) => p.category === 'in-progress')
+        .reduce((total, p) => total + (p.end ?? finishedAt) - p.start, 0),
+    });
+  }
+  return times;
+}
+
+function percentile(sorted: number[], p: number) {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+// Nearest-rank percentiles; null for no values
+export function percentiles(values: number[]): Percentiles | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p50: percentile(sorted, 50), p85: percentile(sorted, 85), p95: percentile(sorted, 95) };
+}
+
+/**
+ * Lead and cycle time percentiles for each project with finished tickets
+ */
+export function summarizeFlowTimes(times: FlowTime[]): FlowTimeSummary[] {
+  const byProject = new Map<string, FlowTime[]>();
+  for (const time of times) {
+    const project = time.ticket.project || 'Uncategorized';
+    byProject.set(project, [...(byProject.get(project) ?? []), time]);
+  }
+
+  return [...byProject]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([project, projectTimes]) => ({
+      project,
+      finished: projectTimes.length,
+      lead: percentiles(projectTimes.map((t) => t.leadTime))!,
+      cycle: percentiles(projectTimes.flatMap((t) => (t.cycleTime === null ? [] : [t.cycleTime]))),
+    }));
+}
+
+/**
+ * A duration as hours under a day, otherwise days, e.g. "5h" or "2.5d"
+ */
+export function formatDuration(ms: number): string {
+  if (ms < DAY_MS) return `${Math.round(ms / (60 * 60 * 1000))}h`;
+  const days = ms / DAY_MS;
+  return `${days < 10 ? days.toFixed(1) : Math.round(days)}d`;
+}
@@ -0,0 +1,51 @@
+import type { Ticket } from '../types/ticket';
+
+export interface SkippedTicket {
+  ticket: Ticket;
+  reason: string;
+}
+
+export interface BulkResult {
+  done: Ticket[];
+  skipped: SkippedTicket[];
+}
+
+/**
+ * Split tickets into those an action applies to and those it must skip.
+ * `check` returns why a ticket is skipped, or null to keep it.
+ */
+export function partitionTickets(tickets: Ticket[], check: (ticket: Ticket) => string | null): BulkResult {
+  const result: BulkResult = { done: [], skipped: [] };
+  for (const ticket of tickets) {
+    const reason = check(ticket);
+    if (reason) {
+      result.skipped.push({ ticket, reason });
+    } else {
+      result.done.push(ticket);
+    }
+  }
+  return result;
+}
+
+export function mergeBulkResults(first: BulkResult, second: BulkResult): BulkResult {
+  return { done: second.done, skipped: [...first.skipped, ...second.skipped] };
+}
+
+/**
+ * What a bulk action did and which tickets it left alone, e.g.
+ * "Moved 3 tickets. Skipped 2: MC-4, MC-9 (no Member access to Foo)."
+ * Null when nothing was skipped.
+ */
+export function summarizeBulkResult(verb: string, result: BulkResult): string | null {
+  if (result.skipped.length === 0) return null;
+
+  const byReason = new Map<string, string[]>();
+  for (const { ticket, reason } of result.skipped) {
+    byReason.set(reason, [...(byReason.get(reason) ?? []), ticket.id]);
+  }
+  const reasons = [...byReason].map(([reason, ids]) => `${ids.join(', ')} (${reason})`).join('; ');
+
+  const done = result.done.length;
+  const lead = done > 0 ? `${verb} ${done} ticket${done !== 1 ? 's' : ''}. ` : '';
+  return `${lead}Skipped ${result.skipped.length}: ${reasons}.`;
+}
@@ -0,0 +1,178 @@
+import { closestCorners, pointerWithin, KeyboardCode } from '@dnd-kit/core';
+import type { Active, CollisionDetection, KeyboardCoordinateGetter, Over } from '@dnd-kit/core';
+import type { Ticket, TicketStatus } from '../types/ticket';
+
+/**
+ * Data attached to every droppable on the board, so a drop target can be
+ * resolved without guessing from the droppable ID
+ */
+export type BoardDroppableData =
+  | { type: 'lane'; status: TicketStatus; row?: string }
+  | { type: 'ticket' };
+
+/**
+ * One status column, or one cell of it when the board is split into swimlane rows
+ */
+export interface BoardLane {
+  key: string;
+  status: TicketStatus;
+  row?: string;
+  tickets: Ticket[];
+}
+
+export interface DropTarget {
+  key: string;
+  status: TicketStatus;
+  row?: string;
+  // Insert position within the target lane, excluding the dragged ticket
+  index: number;
+}
+
+/**
+ * Droppable ID for a lane, unique across swimlane rows
+ */
+export function laneKey(status: TicketStatus, row?: string): string {
+  return row === undefined ? status : JSON.stringify([row, status]);
+}
+
+/**
+ * The lane next to `lane`: left/right within its row, up/down into the same
+ * status of the neighbouring row. `lanes` is in row-major order.
+ */
+export function findNeighbourLane(
+  lanes: BoardLane[],
+  lane: BoardLane,
+  direction: 'up' | 'down' | 'left' | 'right'
+): BoardLane | undefined {
+  if (direction === 'left' || direction === 'right') {
+    const rowLanes = lanes.filter((l) => l.row === lane.row);
+    return rowLanes[rowLanes.indexOf(lane) + (direction === 'left' ? -1 : 1)];
+  }
+  const rows = [...new Set(lanes.map((l) => l.row))];
+  const nextRow = rows[rows.indexOf(lane.row) + (direction === 'up' ? -1 : 1)];
+  if (nextRow === undefined) return undefined;
+  return lanes.find((l) => l.row === nextRow && l.status === lane.status);
+}
+
+/**
+ * Prefer the card under the pointer, then the lane under the pointer, and
+ * only fall back to the closest corners when the pointer is between lanes
+ */
+export const boardCollisionDetection: CollisionDetection = (args) => {
+  const pointerCollisions = pointerWithin(args);
+  if (pointerCollisions.length > 0) {
+    const ticketCollision = pointerCollisions.find(
+      (collision) =>
+        (args.droppableContainers.find((c) => c.id === collision.id)?.data.current as
+          | BoardDroppableData
+          | undefined)?.type === 'ticket'
+    );
+    return ticketCollision ? [ticketCollision] : pointerCollisions;
+  }
+  return closestCorners(args);
+};
+
+/**
+ * Work out which lane and position a dragged ticket would land in
+ */
+export function resolveDropTarget(
+  active: Active,
+  over: Over | null,
+  lanes: BoardLane[]
+): DropTarget | null {
+  const data = over?.data.current as BoardDroppableData | undefined;
+  if (!over || !data) return null;
+
+  // A card belongs to whichever lane it is rendered in
+  const lane =
+    data.type === 'lane'
+      ? lanes.find((l) => l.key === over.id)
+      : lanes.find((l) => l.tickets.some((t) => t.id === over.id));
+  if (!lane) return null;
+
+  const { key, status, row } = lane;
+  const targetLane = lane.tickets.filter((t) => t.id !== active.id);
+
+  if (data.type === 'lane') {
+    return { key, status, row, index: targetLane.length };
+  }
+
+  const overIndex = targetLane.findIndex((t) => t.id === over.id);
+  if (overIndex === -1) {
+    // Hovering the dragged card's own slot
+    return { key, status, row, index: lane.tickets.findIndex((t) => t.id === active.id) };
+  }
+
+  // Land below the card when the dragged card's center is past the card's center
+  const activeRect = active.rect.current.translated;
+  const isBelow =
+    !!activeRect && activeRect.top + activeRect.height / 2 > over.rect.top + over.rect.height / 2;
+
+  return { key, status, row, index: isBelow ? overIndex + 1 : overIndex };
+}
+
+/**
+ * Keyboard coordinate getter that steps one slot at a time: up/down within a
+ * lane (continuing into the row above or below at its ends), left/right into
+ * the neighbouring lane at the same position.
+ *
+ * The dragged card is placed just above or below the target card's center so
+ * `resolveDropTarget` never has to break a tie.
+ */
+export function createBoardKeyboardCoordinates(lanes: BoardLane[]): KeyboardCoordinateGetter {
+  return (event, { context }) => {
+    const { active, over, collisionRect, droppableRects } = context;
+    if (!active || !collisionRect) return undefined;
+
+    const keys: string[] = [KeyboardCode.Up, KeyboardCode.Down, KeyboardCode.Left, KeyboardCode.Right];
+    if (!keys.includes(event.code)) return undefined;
+    event.preventDefault();
+
+    const current = resolveDropTarget(active, over, lanes);
+    let lane = lanes.find((l) => l.key === current?.key);
+    if (!current || !lane) return undefined;
+
+    const laneSize = (l: BoardLane) => l.tickets.filter((t) => t.id !== active.id).length;
+
+    let index = current.index;
+    if (event.code === KeyboardCode.Up) {
+      index -= 1;
+      const above = index < 0 ? findNeighbourLane(lanes, lane, 'up') : undefined;
+      if (above) {
+        lane = above;
+        index = laneSize(above);
+      }
+    }
+    if (event.code === KeyboardCode.Down) {
+      index += 1;
+      const below = index > laneSize(lane) ? findNeighbourLane(lanes, lane, 'down') : undefined;
+      if (below) {
+        lane = below;
+        index = 0;
+      }
+    }
+    if (event.code === KeyboardCode.Left || event.code === KeyboardCode.Right) {
+      const next = findNeighbourLane(lanes, lane, event.code === KeyboardCode.Left ? 'left' : 'right');
+      if (!next) return undefined;
+      lane = next;
+    }
+
+    const targetLane = lane.tickets.filter((t) => t.id !== active.id);
+    index = Math.max(0, Math.min(index, targetLane.length));
+
+    // Sit just above the card we insert before, or just below the last card
+    const anchor = targetLane[index] ?? targetLane[targetLane.length - 1];
+    const anchorRect = anchor ? droppableRects.get(anchor.id) : droppableRects.get(lane.key);
+    if (!anchorRect) return undefined;
+
+    if (!anchor) {
+      return { x: anchorRect.left, y: anchorRect.top };
+    }
+
+    const centerY = anchorRect.top + anchorRect.height / 2 - collisionRect.height / 2;
+    return {
+      x: anchorRect.left,
+      y: targetLane[index] ? centerY - 1 : centerY + 1,
+    };
+  };
+}
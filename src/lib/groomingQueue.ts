@@ -0,0 +1,180 @@
+import type { GroomingStatus } from '../types/ticket';
+
+/**
+ * Grooms many tickets, a few at a time. Tickets wait in the queue until a
+ * slot is free, and a slot stays taken until the ticket's grooming status
+ * (kept current by socket updates) shows the run has finished.
+ */
+
+// `failed` means the server refused to start grooming, not that grooming failed
+export type GroomingQueueItemState = 'queued' | 'submitting' | 'grooming' | 'finished' | 'failed' | 'cancelled';
+
+export interface GroomingQueueItem {
+  ticketId: string;
+  state: GroomingQueueItemState;
+  error?: string;
+}
+
+export interface GroomingQueueSnapshot {
+  items: GroomingQueueItem[];
+  paused: boolean;
+  concurrency: number;
+}
+
+export interface GroomingQueueOptions {
+  // Start grooming one ticket
+  submit: (ticketId: string) => Promise<unknown>;
+  // The ticket's grooming status as last seen; while it's unknown the ticket keeps its slot
+  statusOf: (ticketId: string) => GroomingStatus | undefined;
+  // Keep updates for the ticket coming while it grooms, returns how to stop
+  watch: (ticketId: string) => () => void;
+}
+
+export const DEFAULT_GROOMING_CONCURRENCY = 3;
+
+const ACTIVE_STATES: GroomingQueueItemState[] = ['submitting', 'grooming'];
+
+export function isGroomingQueueItemDone(item: GroomingQueueItem) {
+  return item.state === 'finished' || item.state === 'failed' || item.state === 'cancelled';
+}
+
+function isGroomingRunning(status: GroomingStatus | undefined) {
+  return status === 'pending' || status === 'in-progress';
+}
+
+export function createGroomingQueue({ submit, statusOf, watch }: GroomingQueueOptions) {
+  let snapshot: GroomingQueueSnapshot = { items: [], paused: false, concurrency: DEFAULT_GROOMING_CONCURRENCY };
+  const listeners = new Set<() => void>();
+  const unwatchers = new Map<string, () => void>();
+
+  const update = (change: Partial<GroomingQueueSnapshot>) => {
+    snapshot = { ...snapshot, ...change };
+    listeners.forEach((listener) => listener());
+  };
+
+  const setItem = (ticketId: string, change: Partial<GroomingQueueItem>) => {
+    update({ items: snapshot.items.map((item) => (item.ticketId === ticketId ? { ...item, ...change } : item)) });
+  };
+
+  const stopWatching = (ticketId: string) => {
+    unwatchers.get(ticketId)?.();
+    unwatchers.delete(ticketId);
+  };
+
+  const finish = (ticketId: string, change: Partial<GroomingQueueItem>) => {
+    stopWatching(ticketId);
+    setItem(ticketId, change);
+    pump();
+  };
+
+  const start = (ticketId: string) => {
+    setItem(ticketId, { state: 'submitting' });
+    unwatchers.set(ticketId, watch(ticketId));
+    submit(ticketId).then(
+      () => {
+        setItem(ticketId, { state: 'grooming' });
+        refresh();
+      },
+      (error: Error) => finish(ticketId, { state: 'failed', error: error.message })
+    );
+  };
+
+  // Fill the free slots from the front of the queue
+  function pump() {
+    if (snapshot.paused) return;
+    const active = snapshot.items.filter((item) => ACTIVE_STATES.includes(item.state)).length;
+    const next = snapshot.items
+      .filter((item) => item.state === 'queued')
+      .slice(0, Math.max(0, snapshot.concurrency - active));
+    next.forEach((item) => start(item.ticketId));
+  }
+
+  // Free the slots of tickets whose grooming has ended
+  function refresh() {
+    const ended = snapshot.items.filter((item) => {
+      if (item.state !== 'grooming') return false;
+      const status = statusOf(item.ticketId);
+      return status !== undefined && !isGroomingRunning(status);
+    });
+    if (ended.length === 0) return;
+    ended.forEach((item) => stopWatching(item.ticketId));
+    const endedIds = new Set(ended.map((item) => item.ticketId));
+    update({
+      items: snapshot.items.map((item) => (endedIds.has(item.ticketId) ? { ...item, state: 'finished' } : item)),
+    });
+    pump();
+  }
+
+  return {
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getSnapshot(): GroomingQueueSnapshot {
+      return snapshot;
+    },
+
+    /** Add tickets to the end of the queue, skipping any already waiting or grooming */
+    enqueue(ticketIds: string[]) {
+      const pending = new Set(
+        snapshot.items.filter((item) => !isGroomingQueueItemDone(item)).map((item) => item.ticketId)
+      );
+      const added = [...new Set(ticketIds)].filter((id) => !pending.has(id));
+      if (added.length === 0) return 0;
+      // A ticket groomed again replaces its earlier, finished entry
+      const addedIds = new Set(added);
+      update({
+        items: [
+          ...snapshot.items.filter((item) => !addedIds.has(item.ticketId)),
+          ...added.map((ticketId): GroomingQueueItem => ({ ticketId, state: 'queued' })),
+        ],
+      });
+      pump();
+      return added.length;
+    },
+
+    /** Stop starting new tickets; those already grooming carry on */
+    pause() {
+      update({ paused: true });
+    },
+
+    resume() {
+      update({ paused: false });
+      pump();
+    },
+
+    setConcurrency(concurrency: number) {
+      update({ concurrency: Math.max(1, Math.floor(concurrency)) });
+      pump();
+    },
+
+    /** Drop tickets that haven't started yet, or only the given one */
+    cancel(ticketId?: string) {
+      update({
+        items: snapshot.items.map((item) =>
+          item.state === 'queued' && (!ticketId || item.ticketId === ticketId) ? { ...item, state: 'cancelled' } : item
+        ),
+      });
+    },
+
+    /** Forget finished, failed and cancelled tickets */
+    clearDone() {
+      update({ items: snapshot.items.filter((item) => !isGroomingQueueItemDone(item)) });
+    },
+
+    /** Check grooming tickets against their latest status, after the cache changed */
+    refresh,
+
+    /** Cancel everything and stop watching, e.g. on sign-out */
+    reset() {
+      unwatchers.forEach((unwatch) => unwatch());
+      unwatchers.clear();
+      update({ items: [], paused: false });
+    },
+  };
+}
+
+export type GroomingQueue = ReturnType<typeof createGroomingQueue>;
@@ -0,0 +1,120 @@
+/**
+ * Line-based three-way merge for ticket text, used when a save conflicts
+ * with someone else's edit. Changes made on only one side are taken as is;
+ * lines both sides changed differently are wrapped in conflict markers for
+ * the user to resolve.
+ */
+
+export const CONFLICT_MARKERS = {
+  mine: '<<<<<<< Mine',
+  separator: '=======',
+  theirs: '>>>>>>> Theirs',
+};
+
+export interface MergeResult {
+  text: string;
+  conflicts: number;
+}
+
+// Past this many cells the LCS table gets too slow, so the text is treated as one conflict
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * For each line of `base`, the index of the matching line in `other`
+ * (or -1), following their longest common subsequence
+ */
+function matchLines(base: string[], other: string[]): number[] | null {
+  const n = base.length;
+  const m = other.length;
+  if (n * m > MAX_LCS_CELLS) return null;
+
+  const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] =
+        base[i] === other[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Array<number>(n).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (base[i] === other[j]) {
+      matches[i++] = j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+export function mergeText(base: string, mine: string, theirs: string): MergeResult {
+  if (mine === theirs || theirs === base) return { text: mine, conflicts: 0 };
+  if (mine === base) return { text: theirs, conflicts: 0 };
+
+  const baseLines = base.split('\n');
+  const mineLines = mine.split('\n');
+  const theirLines = theirs.split('\n');
+  const toMine = matchLines(baseLines, mineLines);
+  const toTheirs = matchLines(baseLines, theirLines);
+
+  if (!toMine || !toTheirs) {
+    return {
+      text: [CONFLICT_MARKERS.mine, mine, CONFLICT_MARKERS.separator, theirs, CONFLICT_MARKERS.theirs].join('\n'),
+      conflicts: 1,
+    };
+  }
+
+  const output: string[] = [];
+  let conflicts = 0;
+
+  // Lines between stable points (kept unchanged by both sides) are merged as one chunk
+  const mergeChunk = (b: string[], m: string[], t: string[]) => {
+    if (sameLines(m, t) || sameLines(t, b)) {
+      output.push(...m);
+    } else if (sameLines(m, b)) {
+      output.push(...t);
+    } else {
+      conflicts++;
+      output.push(CONFLICT_MARKERS.mine, ...m, CONFLICT_MARKERS.separator, ...t, CONFLICT_MARKERS.theirs);
+    }
+  };
+
+  let b = 0;
+  let m = 0;
+  let t = 0;
+  for (let i = 0; i < baseLines.length; i++) {
+    if (toMine[i] === -1 || toTheirs[i] === -1) continue;
+    mergeChunk(baseLines.slice(b, i), mineLines.slice(m, toMine[i]), theirLines.slice(t, toTheirs[i]));
+    output.push(baseLines[i]);
+    b = i + 1;
+    m = toMine[i] + 1;
+    t = toTheirs[i] + 1;
+  }
+  mergeChunk(baseLines.slice(b), mineLines.slice(m), theirLines.slice(t));
+
+  return { text: output.join('\n'), conflicts };
+}
+
+/**
+ * Merge a single-line value such as a title. There is nothing to combine
+ * when both sides changed it, so that counts as a conflict and keeps mine.
+ */
+export function mergeValue(base: string, mine: string, theirs: string): MergeResult {
+  if (mine === theirs || theirs === base) return { text: mine, conflicts: 0 };
+  if (mine === base) return { text: theirs, conflicts: 0 };
+  return { text: mine, conflicts: 1 };
+}
+
+export function hasConflictMarkers(text: string): boolean {
+  return text
+    .split('\n')
+    .some((line) => line === CONFLICT_MARKERS.mine || line === CONFLICT_MARKERS.theirs);
+}
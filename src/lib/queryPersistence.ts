@@ -0,0 +1,20 @@
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import { del, get, set } from 'idb-keyval';
+
+// How long a stored board stays usable offline. Queries must be kept in
+// memory at least this long too, or they are dropped before being stored.
+export const CACHE_MAX_AGE = 1000 * 60 * 60 * 24;
+
+/**
+ * The query cache and any changes queued while offline, kept in IndexedDB
+ * so the board opens without a connection
+ */
+export const queryPersister = createAsyncStoragePersister({
+  storage: {
+    getItem: (key) => get<string>(key),
+    setItem: (key, value) => set(key, value),
+    removeItem: (key) => del(key),
+  },
+  key: 'mission-control-query-cache',
+  throttleTime: 1000,
+});
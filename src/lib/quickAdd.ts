@@ -0,0 +1,83 @@
+import type { Priority } from '../types/ticket';
+
+export interface QuickAddResult {
+  title: string;
+  priority?: Priority;
+  project?: string;
+  assignee?: string;
+  estimate?: number;
+  errors: string[];
+}
+
+const PRIORITY_ALIASES: Record<string, Priority> = {
+  high: 'high',
+  h: 'high',
+  medium: 'medium',
+  med: 'medium',
+  m: 'medium',
+  low: 'low',
+  l: 'low',
+};
+
+const ESTIMATE_PATTERN = /^(\d+(?:\.\d+)?)(?:pts?|p)$/i;
+
+/**
+ * Normalize a project name for loose matching, so `#missioncontrol`,
+ * `#Mission-Control` and `#mission_control` all resolve to "Mission Control"
+ */
+function normalizeProjectName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Parse a one-line quick-add entry such as
+ * `Fix login redirect !high #Grapevine @alice 3pt`.
+ *
+ * Recognized tokens are removed from the title; unknown priorities or
+ * projects are reported in `errors` rather than silently becoming title text.
+ */
+export function parseQuickAdd(input: string, projects: string[]): QuickAddResult {
+  const result: QuickAddResult = { title: '', errors: [] };
+  const titleWords: string[] = [];
+
+  for (const word of input.trim().split(/\s+/)) {
+    if (!word) continue;
+
+    if (word.length > 1 && word.startsWith('!')) {
+      const priority = PRIORITY_ALIASES[word.slice(1).toLowerCase()];
+      if (priority) {
+        result.priority = priority;
+      } else {
+        result.errors.push(`Unknown priority "${word}" (use !low, !medium or !high)`);
+      }
+      continue;
+    }
+
+    if (word.length > 1 && word.startsWith('#')) {
+      const wanted = normalizeProjectName(word.slice(1));
+      const project = projects.find((p) => normalizeProjectName(p) === wanted);
+      if (project) {
+        result.project = project;
+      } else {
+        result.errors.push(`Unknown project "${word}"`);
+      }
+      continue;
+    }
+
+    if (word.length > 1 && word.startsWith('@')) {
+      result.assignee = word.slice(1);
+      continue;
+    }
+
+    const estimateMatch = word.match(ESTIMATE_PATTERN);
+    if (estimateMatch) {
+      result.estimate = Number(estimateMatch[1]);
+      continue;
+    }
+
+    titleWords.push(word);
+  }
+
+  result.title = titleWords.join(' ');
+  return result;
+}
@@ -0,0 +1,77 @@
+import type { Ticket } from '../types/ticket';
+
+// Gap between neighbours when a lane is numbered, and when inserting at either end
+const RANK_STEP = 1000;
+
+// Below this gap between two neighbours the lane is renumbered instead of
+// splitting it further, long before precision runs out
+const MIN_RANK_GAP = 1e-3;
+
+/**
+ * Effective sort key for a ticket within its lane.
+ *
+ * Tickets that were never ranked by hand fall back to their creation time,
+ * so unranked lanes show the newest first and stay put when tickets are
+ * edited. A drop ranks only the dropped ticket, against its neighbours'
+ * effective ranks.
+ */
+export function getTicketRank(ticket: Ticket): number {
+  if (ticket.rank !== undefined && ticket.rank !== null) return ticket.rank;
+  return -new Date(ticket.createdAt).getTime();
+}
+
+export function compareTicketRank(a: Ticket, b: Ticket): number {
+  return getTicketRank(a) - getTicketRank(b);
+}
+
+/**
+ * Evenly spaced ranks for several tickets dropped together between two
+ * neighbours, in the order they should appear
+ */
+export function ranksBetween(before: Ticket | undefined, after: Ticket | undefined, count: number): number[] {
+  const positions = Array.from({ length: count }, (_, i) => i + 1);
+  if (before && after) {
+    const low = getTicketRank(before);
+    const step = (getTicketRank(after) - low) / (count + 1);
+    return positions.map((i) => low + step * i);
+  }
+  if (before) return positions.map((i) => getTicketRank(before) + RANK_STEP * i);
+  if (after) return positions.map((i) => getTicketRank(after) - RANK_STEP * (count + 1 - i));
+  return positions.map((i) => RANK_STEP * (i - 1));
+}
+
+/**
+ * Ranks the server gives a lane it renumbers, by ticket id
+ */
+export function laneOrderRanks(laneOrder: string[]): Map<string, number> {
+  return new Map(laneOrder.map((id, i) => [id, (i + 1) * RANK_STEP]));
+}
+
+export interface LaneRankPlan {
+  // Ranks for the dropped tickets, in the order they should appear
+  ranks: number[];
+  // Set when there's no room left at the drop: the lane's order with the
+  // dropped tickets in place, for the server to renumber along with the move
+  laneOrder?: string[];
+}
+
+/**
+ * Ranks for tickets dropped at `index` of a lane (without them). Only when
+ * the gap between the neighbours has run out is the lane renumbered, in one
+ * request with the first move.
+ */
+export function planLaneRanks(lane: Ticket[], index: number, droppedIds: string[]): LaneRankPlan {
+  const before = lane[index - 1];
+  const after = lane[index];
+  const crowded =
+    before !== undefined &&
+    after !== undefined &&
+    (getTicketRank(after) - getTicketRank(before)) / (droppedIds.length + 1) < MIN_RANK_GAP;
+
+  if (!crowded) return { ranks: ranksBetween(before, after, droppedIds.length) };
+
+  const laneOrder = lane.map((t) => t.id);
+  laneOrder.splice(index, 0, ...droppedIds);
+  const ranks = laneOrderRanks(laneOrder);
+  return { ranks: droppedIds.map((id) => ranks.get(id) ?? 0), laneOrder };
+}
@@ -0,0 +1,23 @@
+/**
+ * Shareable path for a ticket, scoped to its project when one is given
+ */
+export function ticketPath(ticketId: string, project?: string | null): string {
+  const id = encodeURIComponent(ticketId);
+  return project ? `${projectPath(project)}/tickets/${id}` : `/tickets/${id}`;
+}
+
+export function projectPath(project: string): string {
+  return `/projects/${encodeURIComponent(project)}`;
+}
+
+export function projectOverviewPath(project: string): string {
+  return `${projectPath(project)}/overview`;
+}
+
+export function analyticsPath(project?: string | null): string {
+  return project ? `/analytics?project=${encodeURIComponent(project)}` : '/analytics';
+}
+
+export function sprintsPath(project: string): string {
+  return `${projectPath(project)}/sprints`;
+}
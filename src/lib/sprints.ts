@@ -0,0 +1,123 @@
+import { eachDayOfInterval, endOfDay, format, isAfter, isBefore, parseISO, startOfDay } from 'date-fns';
+import type { Ticket } from '../types/ticket';
+import type { Sprint, SprintScopeChange, SprintState } from '../types/sprint';
+import { periodAt } from './analytics';
+import type { TicketTimeline } from './analytics';
+
+export interface BurndownDay {
+  day: number;
+  // Where remaining points would be if work went at an even pace
+  ideal: number;
+  // Points of tickets not yet done at the end of the day; null for days still ahead
+  remaining: number | null;
+}
+
+export function sprintState(sprint: Sprint, now = new Date()): SprintState {
+  if (isBefore(now, startOfDay(parseISO(sprint.startDate)))) return 'planned';
+  if (isAfter(now, endOfDay(parseISO(sprint.endDate)))) return 'closed';
+  return 'active';
+}
+
+/**
+ * The sprint running today, if any. Overlapping sprints resolve to the one
+ * that started last.
+ */
+export function currentSprint(sprints: Sprint[], now = new Date()): Sprint | undefined {
+  return sprints
+    .filter((sprint) => sprintState(sprint, now) === 'active')
+    .sort((a, b) => b.startDate.localeCompare(a.startDate))[0];
+}
+
+export function sprintPoints(tickets: Ticket[]): number {
+  return tickets.reduce((sum, ticket) => sum + (ticket.estimate ?? 0), 0);
+}
+
+export function formatSprintDates(sprint: Sprint): string {
+  return `${format(parseISO(sprint.startDate), 'MMM d')} – ${format(parseISO(sprint.endDate), 'MMM d')}`;
+}
+
+// A stretch of time a ticket was in a sprint; `end` is null while it still is
+interface ScopeSpan {
+  start: number;
+  end: number | null;
+}
+
+/**
+ * Replay a ticket's scope changes into the spans it was in the sprint. A
+ * ticket whose first recorded change takes it out was in from the start; one
+ * in the sprint with no record yet joined when it last changed.
+ */
+function scopeSpans(ticket: Ticket, sprintId: string, changes: SprintScopeChange[]): ScopeSpan[] {
+  const spans: ScopeSpan[] = [];
+  let joined: number | null = changes.length > 0 && !changes[0].added ? -Infinity : null;
+
+  for (const change of changes) {
+    const at = Date.parse(change.at);
+    if (change.added && joined === null) {
+      joined = at;
+    } else if (!change.added && joined !== null) {
+      spans.push({ start: joined, end: at });
+      joined = null;
+    }
+  }
+
+  // The history isn't live, so the ticket may have joined or left since it loaded
+  const member = ticket.sprintId === sprintId;
+  const changedAt = Date.parse(ticket.updatedAt);
+  if (member && joined === null) joined = changedAt;
+  if (!member && joined !== null) {
+    spans.push({ start: joined, end: Math.max(joined, changedAt) });
+    joined = null;
+  }
+  if (joined !== null) spans.push({ start: joined, end: null });
+  return spans;
+}
+
+function inScope(spans: ScopeSpan[], time: number) {
+  return spans.some((span) => span.start <= time && (span.end === null || span.end > time));
+}
+
+/**
+ * Remaining points day by day over the sprint, against an even line from
+ * what was committed by the end of the first day down to zero. Each ticket
+ * only counts while it was in the sprint, so added scope shows as a step up
+ * and past days stay as they were when a ticket is taken out.
+ */
+export function burndown(
+  sprint: Sprint,
+  timelines: TicketTimeline[],
+  scope: SprintScopeChange[],
+  now = new Date()
+): BurndownDay[] {
+  const days = eachDayOfInterval({ start: parseISO(sprint.startDate), end: parseISO(sprint.endDate) });
+  if (days.length === 0) return [];
+  const nowTime = now.getTime();
+
+  const byTicket = new Map<string, SprintScopeChange[]>();
+  for (const change of scope) {
+    if (change.sprintId !== sprint.id) continue;
+    const changes = byTicket.get(change.ticketId) ?? [];
+    changes.push(change);
+    byTicket.set(change.ticketId, changes);
+  }
+  const tickets = timelines.map((timeline) => {
+    const changes = (byTicket.get(timeline.ticket.id) ?? []).sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+    return { timeline, spans: scopeSpans(timeline.ticket, sprint.id, changes) };
+  });
+
+  const pointsAt = (time: number, countDone: boolean) =>
+    tickets.reduce((sum, { timeline, spans }) => {
+      if (!inScope(spans, time)) return sum;
+      if (!countDone && periodAt(timeline, time)?.category === 'done') return sum;
+      return sum + (timeline.ticket.estimate ?? 0);
+    }, 0);
+
+  const committed = pointsAt(Math.min(endOfDay(days[0]).getTime(), nowTime), true);
+
+  return days.map((day, i) => {
+    const ideal = days.length > 1 ? committed * (1 - i / (days.length - 1)) : 0;
+    if (day.getTime() > nowTime) return { day: day.getTime(), ideal, remaining: null };
+    const time = Math.min(endOfDay(day).getTime(), nowTime);
+    return { day: day.getTime(), ideal, remaining: pointsAt(time, false) };
+  });
+}
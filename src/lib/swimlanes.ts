@@ -0,0 +1,85 @@
+import type { Priority, Ticket, TicketUpdate } from '../types/ticket';
+
+export type SwimlaneField = 'project' | 'assignee' | 'priority';
+
+export const SWIMLANE_LABELS: Record<SwimlaneField, string> = {
+  project: 'Project',
+  assignee: 'Assignee',
+  priority: 'Priority',
+};
+
+export interface Swimlane {
+  key: string;
+  label: string;
+  tickets: Ticket[];
+}
+
+// Row key for tickets without an assignee
+const UNASSIGNED = '';
+
+const PRIORITY_ROWS: Priority[] = ['high', 'medium', 'low'];
+
+export function swimlaneKey(ticket: Ticket, field: SwimlaneField): string {
+  switch (field) {
+    case 'project':
+      return ticket.project;
+    case 'assignee':
+      return ticket.assignee ?? UNASSIGNED;
+    case 'priority':
+      return ticket.priority;
+  }
+}
+
+function swimlaneLabel(key: string, field: SwimlaneField): string {
+  if (field === 'assignee' && key === UNASSIGNED) return 'Unassigned';
+  if (field === 'priority') return key.charAt(0).toUpperCase() + key.slice(1);
+  return key;
+}
+
+/**
+ * Split tickets into rows by a field. Project rows include every board
+ * project, even empty ones, so tickets can be dragged into them; assignee
+ * rows list people alphabetically with "Unassigned" last.
+ */
+export function buildSwimlanes(tickets: Ticket[], field: SwimlaneField, projects: string[]): Swimlane[] {
+  const keys: string[] = [];
+  if (field === 'priority') {
+    keys.push(...PRIORITY_ROWS);
+  } else if (field === 'project') {
+    keys.push(...projects);
+  }
+
+  const extra = new Set<string>();
+  for (const ticket of tickets) {
+    const key = swimlaneKey(ticket, field);
+    if (!keys.includes(key)) extra.add(key);
+  }
+  keys.push(
+    ...[...extra].sort((a, b) => {
+      // Unassigned sorts after everyone
+      if (a === UNASSIGNED) return 1;
+      if (b === UNASSIGNED) return -1;
+      return a.localeCompare(b);
+    })
+  );
+
+  return keys.map((key) => ({
+    key,
+    label: swimlaneLabel(key, field),
+    tickets: tickets.filter((t) => swimlaneKey(t, field) === key),
+  }));
+}
+
+/**
+ * The ticket change that moves a ticket into a row
+ */
+export function swimlaneUpdate(field: SwimlaneField, key: string): TicketUpdate {
+  switch (field) {
+    case 'project':
+      return { project: key };
+    case 'assignee':
+      return { assignee: key === UNASSIGNED ? null : key };
+    case 'priority':
+      return { priority: key as Priority };
+  }
+}
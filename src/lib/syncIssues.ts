@@ -0,0 +1,55 @@
+import type { Ticket } from '../types/ticket';
+
+/**
+ * Changes queued while offline that the server rejected once they were
+ * replayed. They're kept here until the user resolves them, since the
+ * component that made the change is usually long gone.
+ */
+
+export type SyncIssueKind = 'update' | 'move' | 'reorder' | 'create' | 'delete';
+
+export interface SyncIssue {
+  id: string;
+  kind: SyncIssueKind;
+  error: Error;
+  // The variables the mutation was called with
+  variables: unknown;
+  // The ticket as it was before the change, when it was on the board
+  original?: Ticket;
+  failedAt: string;
+}
+
+type Listener = () => void;
+
+let issues: SyncIssue[] = [];
+const listeners = new Set<Listener>();
+let nextId = 1;
+
+function emit() {
+  listeners.forEach((listener) => listener());
+}
+
+export function addSyncIssue(issue: Omit<SyncIssue, 'id' | 'failedAt'>) {
+  issues = [...issues, { ...issue, id: String(nextId++), failedAt: new Date().toISOString() }];
+  emit();
+}
+
+export function dismissSyncIssue(id: string) {
+  issues = issues.filter((issue) => issue.id !== id);
+  emit();
+}
+
+export function subscribeToSyncIssues(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getSyncIssues(): SyncIssue[] {
+  return issues;
+}
+
+export function ticketIdOf(issue: SyncIssue): string | undefined {
+  return (issue.variables as { id?: string } | undefined)?.id;
+}
@@ -0,0 +1,132 @@
+import type { QueryClient, QueryKey } from '@tanstack/react-query';
+import type { Priority, Ticket, TicketStatus, TicketUpdate } from '../types/ticket';
+
+/**
+ * The server-side filters a `['tickets', filters]` query was fetched with
+ * (see useTickets)
+ */
+export interface TicketListFilters {
+  project?: string;
+  status?: TicketStatus;
+  priority?: Priority;
+}
+
+export type TicketPositionPatch = Pick<Ticket, 'id' | 'status' | 'rank' | 'updatedAt'>;
+
+function listFilters(queryKey: QueryKey): TicketListFilters | undefined {
+  return (queryKey[1] ?? undefined) as TicketListFilters | undefined;
+}
+
+export function matchesListFilters(ticket: Ticket, filters?: TicketListFilters): boolean {
+  if (!filters) return true;
+  if (filters.project && ticket.project !== filters.project) return false;
+  if (filters.status && ticket.status !== filters.status) return false;
+  if (filters.priority && ticket.priority !== filters.priority) return false;
+  return true;
+}
+
+function timeOf(ticket: Pick<Ticket, 'updatedAt'>): number {
+  return Date.parse(ticket.updatedAt) || 0;
+}
+
+/**
+ * The ticket as it will be once `update` is applied, where null clears a field
+ */
+export function applyTicketUpdate(ticket: Ticket, update: TicketUpdate): Ticket {
+  const { assignee, estimate, ...rest } = update;
+  return {
+    ...ticket,
+    ...rest,
+    ...(assignee !== undefined && { assignee: assignee ?? undefined }),
+    ...(estimate !== undefined && { estimate: estimate ?? undefined }),
+  };
+}
+
+/**
+ * The ticket from any cached list, or its own query
+ */
+export function findCachedTicket(queryClient: QueryClient, id: string): Ticket | undefined {
+  for (const [, tickets] of queryClient.getQueriesData<Ticket[]>({ queryKey: ['tickets'] })) {
+    const ticket = tickets?.find((t) => t.id === id);
+    if (ticket) return ticket;
+  }
+  return queryClient.getQueryData<Ticket>(['ticket', id]);
+}
+
+/**
+ * Applies socket events to the cached ticket lists in place, so a change to
+ * one ticket doesn't refetch every list on every client.
+ *
+ * Events can arrive out of order (several server instances, reconnects), so
+ * each ticket's newest `updatedAt` is remembered and anything older is
+ * dropped. Deleted tickets are remembered too, so a late update can't bring
+ * them back.
+ */
+export function createTicketCachePatcher(queryClient: QueryClient) {
+  const versions = new Map<string, number>();
+  // Newest server timestamp seen in any event, where a resync picks up from
+  let newest = 0;
+
+  const isStale = (id: string, time: number) => time < (versions.get(id) ?? -Infinity);
+
+  const upsert = (ticket: Ticket) => {
+    const time = timeOf(ticket);
+    if (isStale(ticket.id, time)) return false;
+    versions.set(ticket.id, time);
+    newest = Math.max(newest, time);
+
+    for (const [queryKey, tickets] of queryClient.getQueriesData<Ticket[]>({ queryKey: ['tickets'] })) {
+      if (!tickets) continue;
+      const index = tickets.findIndex((t) => t.id === ticket.id);
+      const belongs = matchesListFilters(ticket, listFilters(queryKey));
+
+      if (index === -1) {
+        if (belongs) queryClient.setQueryData<Ticket[]>(queryKey, [ticket, ...tickets]);
+      } else if (!belongs) {
+        queryClient.setQueryData<Ticket[]>(queryKey, tickets.filter((t) => t.id !== ticket.id));
+      } else if (timeOf(tickets[index]) <= time) {
+        // A newer cached copy is an optimistic edit, which its own refetch will settle
+        queryClient.setQueryData<Ticket[]>(queryKey, tickets.map((t) => (t.id === ticket.id ? ticket : t)));
+      }
+    }
+
+    const cached = queryClient.getQueryData<Ticket>(['ticket', ticket.id]);
+    if (!cached || timeOf(cached) <= time) {
+      queryClient.setQueryData(['ticket', ticket.id], ticket);
+    }
+    return true;
+  };
+
+  return {
+    /** `ticket:created` and `ticket:updated` */
+    upsert,
+
+    /** `ticket:reordered`, which carries only the position fields */
+    patchPosition(patch: TicketPositionPatch) {
+      // Events that only carry a few fields need the full ticket from the cache
+      const ticket = findCachedTicket(queryClient, patch.id);
+      if (!ticket) return false;
+      return upsert({ ...ticket, ...patch });
+    },
+
+    /** `ticket:deleted` */
+    remove(id: string) {
+      versions.set(id, Infinity);
+      queryClient.setQueriesData<Ticket[]>({ queryKey: ['tickets'] }, (old) =>
+        old?.some((t) => t.id === id) ? old.filter((t) => t.id !== id) : old
+      );
+      // An open modal falls back to fetching it, which reports it as gone
+      queryClient.removeQueries({ queryKey: ['ticket', id], exact: true });
+    },
+
+    /** The `updatedAt` of the newest change applied, if any */
+    newestUpdate(): string | null {
+      return newest > 0 ? new Date(newest).toISOString() : null;
+    },
+
+    /** After `tickets:init` or a refetch the cache is authoritative again */
+    reset() {
+      versions.clear();
+    },
+  };
+}
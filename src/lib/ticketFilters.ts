@@ -0,0 +1,141 @@
+import type { GroomingStatus, Priority, Ticket, TicketStatus } from '../types/ticket';
+
+export type GroomingFilter = GroomingStatus | 'none';
+export type EstimateFilter = 'set' | 'unset';
+
+export interface TicketFilters {
+  project: string | null;
+  status: TicketStatus | null;
+  priority: Priority | null;
+  // An email, or UNASSIGNED_FILTER for tickets without an assignee
+  assignee: string | null;
+  grooming: GroomingFilter | null;
+  qualityMin: number | null;
+  qualityMax: number | null;
+  estimate: EstimateFilter | null;
+  search: string;
+}
+
+export const UNASSIGNED_FILTER = 'none';
+
+export const EMPTY_FILTERS: TicketFilters = {
+  project: null,
+  status: null,
+  priority: null,
+  assignee: null,
+  grooming: null,
+  qualityMin: null,
+  qualityMax: null,
+  estimate: null,
+  search: '',
+};
+
+export const PRIORITIES: Priority[] = ['low', 'medium', 'high'];
+export const GROOMING_FILTERS: GroomingFilter[] = ['none', 'pending', 'in-progress', 'complete', 'failed', 'manual'];
+
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function oneOf<T extends string>(value: string | null, options: readonly T[]): T | null {
+  return options.includes(value as T) ? (value as T) : null;
+}
+
+/**
+ * Read filters from the URL query string, ignoring values that don't parse.
+ * The project is part of the path instead (see lib/routes.ts).
+ */
+export function parseFilterParams(params: URLSearchParams): Omit<TicketFilters, 'project'> {
+  return {
+    status: params.get('status') || null,
+    priority: oneOf(params.get('priority'), PRIORITIES),
+    assignee: params.get('assignee') || null,
+    grooming: oneOf(params.get('grooming'), GROOMING_FILTERS),
+    qualityMin: parseNumber(params.get('qmin')),
+    qualityMax: parseNumber(params.get('qmax')),
+    estimate: oneOf(params.get('estimate'), ['set', 'unset'] as const),
+    search: params.get('q') ?? '',
+  };
+}
+
+/**
+ * Write filters into a copy of `params`, dropping empty ones and leaving
+ * unrelated parameters alone. The project is left to the path.
+ */
+export function toFilterParams(filters: Omit<TicketFilters, 'project'>, params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const values: Record<string, string | number | null> = {
+    status: filters.status,
+    priority: filters.priority,
+    assignee: filters.assignee,
+    grooming: filters.grooming,
+    qmin: filters.qualityMin,
+    qmax: filters.qualityMax,
+    estimate: filters.estimate,
+    q: filters.search.trim() || null,
+  };
+  for (const [key, value] of Object.entries(values)) {
+    if (value === null) {
+      next.delete(key);
+    } else {
+      next.set(key, String(value));
+    }
+  }
+  return next;
+}
+
+/**
+ * Whether any filter beyond the project is set
+ */
+export function hasActiveFilters(filters: TicketFilters): boolean {
+  return (
+    filters.status !== null ||
+    filters.priority !== null ||
+    filters.assignee !== null ||
+    filters.grooming !== null ||
+    filters.qualityMin !== null ||
+    filters.qualityMax !== null ||
+    filters.estimate !== null ||
+    filters.search.trim() !== ''
+  );
+}
+
+export function matchesFilters(ticket: Ticket, filters: TicketFilters): boolean {
+  if (filters.project && ticket.project !== filters.project) return false;
+  if (filters.status && ticket.status !== filters.status) return false;
+  if (filters.priority && ticket.priority !== filters.priority) return false;
+
+  if (filters.assignee) {
+    const assignee = ticket.assignee ?? null;
+    if (filters.assignee === UNASSIGNED_FILTER ? assignee !== null : assignee !== filters.assignee) {
+      return false;
+    }
+  }
+
+  if (filters.grooming) {
+    const status = ticket.grooming?.status ?? 'none';
+    if (status !== filters.grooming) return false;
+  }
+
+  // Tickets without a score never match a score range
+  if (filters.qualityMin !== null || filters.qualityMax !== null) {
+    if (ticket.qualityScore == null) return false;
+    if (filters.qualityMin !== null && ticket.qualityScore < filters.qualityMin) return false;
+    if (filters.qualityMax !== null && ticket.qualityScore > filters.qualityMax) return false;
+  }
+
+  if (filters.estimate) {
+    const hasEstimate = ticket.estimate != null;
+    if (hasEstimate !== (filters.estimate === 'set')) return false;
+  }
+
+  const search = filters.search.trim().toLowerCase();
+  if (search) {
+    const haystack = `${ticket.id}\n${ticket.title}\n${ticket.body}`.toLowerCase();
+    if (!haystack.includes(search)) return false;
+  }
+
+  return true;
+}
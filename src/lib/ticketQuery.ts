@@ -0,0 +1,340 @@
+import type { Priority } from '../types/ticket';
+import { EMPTY_FILTERS, GROOMING_FILTERS, PRIORITIES, UNASSIGNED_FILTER } from './ticketFilters';
+import type { EstimateFilter, GroomingFilter, TicketFilters } from './ticketFilters';
+
+/**
+ * Typed board queries such as
+ * `project:Optrader priority:high status:todo assignee:me groomed:failed quality:<60 "login bug"`.
+ * A query compiles to the same `TicketFilters` the filter bar edits, so the
+ * two always describe the same board.
+ */
+
+export type QueryField = 'project' | 'status' | 'priority' | 'assignee' | 'groomed' | 'quality' | 'estimate';
+
+export const QUERY_FIELDS: Record<QueryField, string> = {
+  project: 'Project name',
+  status: 'Workflow status',
+  priority: 'high, medium or low',
+  assignee: 'Email, "me" or "none"',
+  groomed: 'Grooming status, or "none"',
+  quality: 'Score such as <60, >=80 or 40..80',
+  estimate: '"set" or "unset"',
+};
+
+const ESTIMATE_VALUES: EstimateFilter[] = ['set', 'unset'];
+const QUALITY_EXAMPLES = ['<60', '>=80', '40..80'];
+
+export interface QueryContext {
+  projects: string[];
+  statuses: Array<{ id: string; label: string }>;
+  assignees: string[];
+  // Email of the signed-in user, for `assignee:me`
+  me?: string | null;
+}
+
+export interface QueryToken {
+  // Present for `field:value` tokens, exactly as typed
+  field?: string;
+  value: string;
+  quoted: boolean;
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  filters: TicketFilters;
+  errors: string[];
+}
+
+function isQueryField(field: string): field is QueryField {
+  return field in QUERY_FIELDS;
+}
+
+/**
+ * Split a query into `field:value` tokens and free-text words. Values and
+ * phrases may be wrapped in double quotes to include spaces.
+ */
+export function tokenizeQuery(input: string): { tokens: QueryToken[]; errors: string[] } {
+  const tokens: QueryToken[] = [];
+  const errors: string[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let field: string | undefined;
+    const fieldMatch = /^([a-zA-Z]+):/.exec(input.slice(i));
+    if (fieldMatch) {
+      field = fieldMatch[1];
+      i += fieldMatch[0].length;
+    }
+
+    let value = '';
+    let quoted = false;
+    if (input[i] === '"') {
+      quoted = true;
+      const close = input.indexOf('"', i + 1);
+      if (close === -1) {
+        errors.push(`Missing closing quote after ${input.slice(start, start + 20)}`);
+        value = input.slice(i + 1);
+        i = input.length;
+      } else {
+        value = input.slice(i + 1, close);
+        i = close + 1;
+      }
+    } else {
+      while (i < input.length && !/\s/.test(input[i])) {
+        value += input[i];
+        i++;
+      }
+    }
+
+    tokens.push({ field, value, quoted, start, end: i });
+  }
+
+  return { tokens, errors };
+}
+
+function matchIgnoringCase(value: string, options: string[]): string | undefined {
+  const wanted = value.toLowerCase();
+  return options.find((option) => option.toLowerCase() === wanted);
+}
+
+function listOf(values: string[]): string {
+  return values.length > 0 ? values.join(', ') : 'none available';
+}
+
+/**
+ * Quality scores are whole numbers from 0 to 100, so strict comparisons
+ * become inclusive bounds
+ */
+function parseQuality(value: string): Pick<TicketFilters, 'qualityMin' | 'qualityMax'> | null {
+  const range = /^(\d+(?:\.\d+)?)\.\.(\d+(?:\.\d+)?)$/.exec(value);
+  if (range) {
+    const [min, max] = [Number(range[1]), Number(range[2])];
+    return min <= max ? { qualityMin: min, qualityMax: max } : null;
+  }
+
+  const comparison = /^(<=|>=|<|>|=)?(\d+(?:\.\d+)?)$/.exec(value);
+  if (!comparison) return null;
+  const n = Number(comparison[2]);
+  switch (comparison[1]) {
+    case '<':
+      return { qualityMin: null, qualityMax: Math.ceil(n) - 1 };
+    case '<=':
+      return { qualityMin: null, qualityMax: n };
+    case '>':
+      return { qualityMin: Math.floor(n) + 1, qualityMax: null };
+    case '>=':
+      return { qualityMin: n, qualityMax: null };
+    default:
+      return { qualityMin: n, qualityMax: n };
+  }
+}
+
+/**
+ * Compile a query into board filters. Anything not understood is reported
+ * in `errors` and left out of the filters.
+ */
+export function parseTicketQuery(input: string, context: QueryContext): ParsedQuery {
+  const { tokens, errors } = tokenizeQuery(input);
+  const filters: TicketFilters = { ...EMPTY_FILTERS };
+  const seen = new Set<QueryField>();
+  const text: string[] = [];
+
+  for (const token of tokens) {
+    if (token.field === undefined) {
+      text.push(token.value);
+      continue;
+    }
+
+    const field = token.field.toLowerCase();
+    if (!isQueryField(field)) {
+      errors.push(
+        `Unknown field "${token.field}". Use ${Object.keys(QUERY_FIELDS).join(', ')}, or quote the text to search for it.`
+      );
+      continue;
+    }
+    if (seen.has(field)) {
+      errors.push(`${field}: can only be used once`);
+      continue;
+    }
+    seen.add(field);
+
+    const value = token.value.trim();
+    if (!value) {
+      errors.push(`${field}: needs a value, for example ${field}:${exampleValue(field, context)}`);
+      continue;
+    }
+
+    switch (field) {
+      case 'project': {
+        const project = matchIgnoringCase(value, context.projects);
+        if (project) filters.project = project;
+        else errors.push(`No project named "${value}". Projects: ${listOf(context.projects)}`);
+        break;
+      }
+      case 'status': {
+        const wanted = value.toLowerCase();
+        const status = context.statuses.find(
+          (s) => s.id.toLowerCase() === wanted || s.label.toLowerCase() === wanted
+        );
+        if (status) filters.status = status.id;
+        else errors.push(`Unknown status "${value}". Statuses: ${listOf(context.statuses.map((s) => s.id))}`);
+        break;
+      }
+      case 'priority': {
+        const priority = matchIgnoringCase(value, PRIORITIES);
+        if (priority) filters.priority = priority as Priority;
+        else errors.push(`priority: must be ${PRIORITIES.join(', ')}`);
+        break;
+      }
+      case 'assignee': {
+        const lower = value.toLowerCase();
+        if (lower === 'me') {
+          if (context.me) filters.assignee = context.me;
+          else errors.push('assignee:me needs you to be signed in with an email');
+        } else if (lower === 'none' || lower === 'unassigned') {
+          filters.assignee = UNASSIGNED_FILTER;
+        } else {
+          // Accept a known email or its local part, otherwise take the value as typed
+          filters.assignee =
+            matchIgnoringCase(value, context.assignees) ??
+            context.assignees.find((email) => email.toLowerCase().split('@')[0] === lower) ??
+            value;
+        }
+        break;
+      }
+      case 'groomed': {
+        const grooming = matchIgnoringCase(value, GROOMING_FILTERS);
+        if (grooming) filters.grooming = grooming as GroomingFilter;
+        else errors.push(`groomed: must be ${GROOMING_FILTERS.join(', ')}`);
+        break;
+      }
+      case 'quality': {
+        const range = parseQuality(value);
+        if (range) Object.assign(filters, range);
+        else errors.push(`quality: "${value}" isn't a score, comparison or range like ${QUALITY_EXAMPLES.join(', ')}`);
+        break;
+      }
+      case 'estimate': {
+        const estimate = matchIgnoringCase(value, ESTIMATE_VALUES);
+        if (estimate) filters.estimate = estimate as EstimateFilter;
+        else errors.push(`estimate: must be ${ESTIMATE_VALUES.join(' or ')}`);
+        break;
+      }
+    }
+  }
+
+  filters.search = text.join(' ');
+  return { filters, errors };
+}
+
+function quoteIfNeeded(value: string): string {
+  return /[\s:"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+/**
+ * Write filters back out as a query, the inverse of `parseTicketQuery`
+ */
+export function formatTicketQuery(filters: TicketFilters, me?: string | null): string {
+  const parts: string[] = [];
+  if (filters.project) parts.push(`project:${quoteIfNeeded(filters.project)}`);
+  if (filters.status) parts.push(`status:${quoteIfNeeded(filters.status)}`);
+  if (filters.priority) parts.push(`priority:${filters.priority}`);
+  if (filters.assignee) {
+    parts.push(`assignee:${filters.assignee === me ? 'me' : quoteIfNeeded(filters.assignee)}`);
+  }
+  if (filters.grooming) parts.push(`groomed:${filters.grooming}`);
+  if (filters.qualityMin !== null && filters.qualityMax !== null) {
+    parts.push(
+      filters.qualityMin === filters.qualityMax
+        ? `quality:${filters.qualityMin}`
+        : `quality:${filters.qualityMin}..${filters.qualityMax}`
+    );
+  } else if (filters.qualityMin !== null) {
+    parts.push(`quality:>=${filters.qualityMin}`);
+  } else if (filters.qualityMax !== null) {
+    parts.push(`quality:<=${filters.qualityMax}`);
+  }
+  if (filters.estimate) parts.push(`estimate:${filters.estimate}`);
+  if (filters.search.trim()) {
+    const search = filters.search.trim();
+    // Bare words would be read back as fields if they contain a colon
+    parts.push(search.includes(':') || search.includes('"') ? `"${search.replace(/"/g, '')}"` : search);
+  }
+  return parts.join(' ');
+}
+
+function fieldValues(field: QueryField, context: QueryContext): string[] {
+  switch (field) {
+    case 'project':
+      return context.projects;
+    case 'status':
+      return context.statuses.map((s) => s.id);
+    case 'priority':
+      return ['high', 'medium', 'low'];
+    case 'assignee':
+      return [...(context.me ? ['me'] : []), 'none', ...context.assignees];
+    case 'groomed':
+      return GROOMING_FILTERS;
+    case 'quality':
+      return QUALITY_EXAMPLES;
+    case 'estimate':
+      return ESTIMATE_VALUES;
+  }
+}
+
+function exampleValue(field: QueryField, context: QueryContext): string {
+  return quoteIfNeeded(fieldValues(field, context)[0] ?? 'value');
+}
+
+export interface QuerySuggestion {
+  label: string;
+  detail?: string;
+  // Replaces the query text between `from` and `to`
+  insert: string;
+}
+
+export interface QuerySuggestions {
+  from: number;
+  to: number;
+  items: QuerySuggestion[];
+}
+
+/**
+ * Suggestions for the token under the caret: field names while typing a
+ * bare word, values once the field's colon has been typed
+ */
+export function suggestQueryCompletions(input: string, caret: number, context: QueryContext): QuerySuggestions {
+  const { tokens } = tokenizeQuery(input);
+  const token = tokens.find((t) => t.start <= caret && caret <= t.end);
+  const from = token?.start ?? caret;
+  const to = token?.end ?? caret;
+  const empty = { from, to, items: [] };
+
+  // Free text inside quotes is never a field
+  if (token && token.field === undefined && token.quoted) return empty;
+
+  if (!token || token.field === undefined) {
+    const prefix = (token?.value ?? '').toLowerCase();
+    const items = (Object.keys(QUERY_FIELDS) as QueryField[])
+      .filter((field) => field.startsWith(prefix))
+      .map((field) => ({ label: `${field}:`, detail: QUERY_FIELDS[field], insert: `${field}:` }));
+    return { from, to, items };
+  }
+
+  const field = token.field.toLowerCase();
+  if (!isQueryField(field)) return empty;
+
+  const prefix = token.value.toLowerCase();
+  const items = fieldValues(field, context)
+    .filter((value) => value.toLowerCase().startsWith(prefix) && value.toLowerCase() !== prefix)
+    .slice(0, 8)
+    .map((value) => ({ label: value, insert: `${field}:${quoteIfNeeded(value)} ` }));
+  return { from, to, items };
+}
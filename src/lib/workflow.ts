@@ -0,0 +1,132 @@
+import type { Ticket, TicketStatus } from '../types/ticket';
+import type { Workflow, WorkflowStatus } from '../types/workflow';
+import { DEFAULT_WORKFLOW_STATUSES } from '../types/workflow';
+
+export function defaultWorkflow(project: string): Workflow {
+  return { project, statuses: DEFAULT_WORKFLOW_STATUSES };
+}
+
+/**
+ * Turn a raw status ID such as `needs-info` into "Needs Info"
+ */
+export function humanizeStatus(status: TicketStatus): string {
+  return status
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Column for a status no workflow defines, so its tickets stay visible
+ */
+export function unknownStatusColumn(status: TicketStatus): WorkflowStatus {
+  return { id: status, label: humanizeStatus(status), color: 'gray', category: 'todo' };
+}
+
+export function findWorkflowStatus(workflow: Workflow, status: TicketStatus): WorkflowStatus | undefined {
+  return workflow.statuses.find((s) => s.id === status);
+}
+
+/**
+ * Merge the workflows of every visible project into one ordered set of board
+ * columns. Each project's relative order is kept; a status defined by more
+ * than one project uses the first definition. Statuses found on tickets but
+ * in no workflow get their own trailing column.
+ */
+export function buildBoardColumns(workflows: Workflow[], tickets: Ticket[]): WorkflowStatus[] {
+  const columns: WorkflowStatus[] = [];
+
+  for (const workflow of workflows) {
+    let previousId: TicketStatus | null = null;
+    for (const status of workflow.statuses) {
+      if (!columns.some((c) => c.id === status.id)) {
+        const insertAt = previousId ? columns.findIndex((c) => c.id === previousId) + 1 : 0;
+        columns.splice(insertAt, 0, status);
+      }
+      previousId = status.id;
+    }
+  }
+
+  if (columns.length === 0) {
+    columns.push(...DEFAULT_WORKFLOW_STATUSES);
+  }
+
+  for (const ticket of tickets) {
+    if (!columns.some((c) => c.id === ticket.status)) {
+      columns.push(unknownStatusColumn(ticket.status));
+    }
+  }
+
+  return columns;
+}
+
+export interface WipCheck {
+  count: number;
+  limit: number;
+}
+
+/**
+ * Number of a project's tickets in a status, measured against the workflow's WIP limit
+ */
+export function getWipUsage(tickets: Ticket[], workflow: Workflow, status: TicketStatus): WipCheck | null {
+  const limit = findWorkflowStatus(workflow, status)?.wipLimit;
+  if (limit === undefined || limit === null) return null;
+  const count = tickets.filter((t) => t.project === workflow.project && t.status === status).length;
+  return { count, limit };
+}
+
+/**
+ * The WIP usage a move would produce, if it pushes the target status over its
+ * limit. `workflow` is the destination project's, which may differ from the
+ * ticket's current project.
+ */
+export function checkWipLimit(tickets: Ticket[], workflow: Workflow, ticket: Ticket, status: TicketStatus): WipCheck | null {
+  return checkWipLimitForTickets(tickets, workflow, [ticket], status);
+}
+
+/**
+ * Like checkWipLimit, for several tickets moving into the status at once
+ */
+export function checkWipLimitForTickets(
+  tickets: Ticket[],
+  workflow: Workflow,
+  moving: Ticket[],
+  status: TicketStatus
+): WipCheck | null {
+  // Those already there are counted already
+  const incoming = moving.filter((t) => !(t.project === workflow.project && t.status === status)).length;
+  if (incoming === 0) return null;
+  const usage = getWipUsage(tickets, workflow, status);
+  if (!usage || usage.count + incoming <= usage.limit) return null;
+  return { count: usage.count + incoming, limit: usage.limit };
+}
+
+/**
+ * The entry rules of `status` that a ticket doesn't meet, each phrased as
+ * what it still needs. Empty when the move is allowed, or the ticket is
+ * already there.
+ */
+export function unmetEntryRules(workflow: Workflow, ticket: Ticket, status: TicketStatus): string[] {
+  if (ticket.project === workflow.project && ticket.status === status) return [];
+  const rules = findWorkflowStatus(workflow, status)?.entryRules;
+  if (!rules) return [];
+
+  const unmet: string[] = [];
+  const grooming = ticket.grooming?.status;
+  if (rules.groomed && grooming !== 'complete' && grooming !== 'manual') {
+    unmet.push(`grooming complete (it's ${grooming ?? 'not groomed'})`);
+  }
+  if (rules.minQualityScore !== undefined && (ticket.qualityScore ?? -Infinity) < rules.minQualityScore) {
+    unmet.push(
+      `a quality score of at least ${rules.minQualityScore} (it has ${ticket.qualityScore ?? 'none'})`
+    );
+  }
+  if (rules.assignee && !ticket.assignee) unmet.push('an assignee');
+  if (rules.estimate && ticket.estimate == null) unmet.push('an estimate');
+  return unmet;
+}
+
+export function describeUnmetRules(ticket: Ticket, statusLabel: string, unmet: string[]): string {
+  return `${ticket.id} can't move to ${statusLabel} without ${unmet.join(', ')}.`;
+}
@@ -0,0 +1,247 @@
+import { useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { subWeeks } from 'date-fns';
+import { Loader2, Columns3 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useTickets, useTicketTransitions } from '../hooks/useTickets';
+import { useProjectAccessFilter, useVisibleProjects } from '../hooks/useProjects';
+import { useBoardColumns } from '../hooks/useWorkflows';
+import {
+  DAY_MS,
+  buildTimelines,
+  cumulativeFlow,
+  flowTimes,
+  formatDuration,
+  summarizeFlowTimes,
+  weeklyThroughput,
+} from '../lib/analytics';
+import type { Percentiles } from '../lib/analytics';
+import { projectPath } from '../lib/routes';
+import { Header } from '../components/Header';
+import { ProjectFilter } from '../components/ProjectFilter';
+import { CumulativeFlowChart, EstimateScatterChart, ThroughputChart } from '../components/AnalyticsCharts';
+import type { EstimatePoint } from '../components/AnalyticsCharts';
+import { NoAccessPage } from './NoAccessPage';
+
+const RANGES = [4, 12, 26, 52];
+
+interface ChartSectionProps {
+  title: string;
+  description: string;
+  empty: string | null;
+  children: ReactNode;
+}
+
+function ChartSection({ title, description, empty, children }: ChartSectionProps) {
+  return (
+    <section className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+      <h3 className="text-sm font-semibold text-gray-200">{title}</h3>
+      <p className="text-xs text-gray-400 mb-3">{description}</p>
+      {empty ? <p className="text-sm text-gray-500">{empty}</p> : children}
+    </section>
+  );
+}
+
+function PercentileCells({ values }: { values: Percentiles | null }) {
+  if (!values) {
+    return (
+      <td colSpan={3} className="px-3 py-2 text-gray-500">
+        —
+      </td>
+    );
+  }
+  return (
+    <>
+      <td className="px-3 py-2">{formatDuration(values.p50)}</td>
+      <td className="px-3 py-2">{formatDuration(values.p85)}</td>
+      <td className="px-3 py-2">{formatDuration(values.p95)}</td>
+    </>
+  );
+}
+
+/**
+ * Flow metrics worked out from ticket status transitions, for one project or
+ * every project the user can see
+ */
+export function AnalyticsPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const project = searchParams.get('project');
+  const [weeks, setWeeks] = useState(12);
+  const { projectsLoading, hasProjectAccess } = useAuth();
+  const filterAccessible = useProjectAccessFilter();
+
+  const { data: tickets, isLoading: ticketsLoading } = useTickets({ project: project ?? undefined });
+  const {
+    data: transitions,
+    isLoading: transitionsLoading,
+    error: transitionsError,
+  } = useTicketTransitions(project ?? undefined);
+
+  // The same project access filtering as the board
+  const accessibleTickets = useMemo(() => filterAccessible(tickets ?? []), [tickets, filterAccessible]);
+  const accessibleTransitions = useMemo(
+    () => filterAccessible(transitions ?? []),
+    [transitions, filterAccessible]
+  );
+
+  const availableProjects = useVisibleProjects(accessibleTickets);
+  const chartProjects = useMemo(() => (project ? [project] : availableProjects), [project, availableProjects]);
+  const { columns, workflows } = useBoardColumns(chartProjects, accessibleTickets);
+
+  const metrics = useMemo(() => {
+    const to = new Date();
+    const from = subWeeks(to, weeks);
+    const timelines = buildTimelines(accessibleTickets, accessibleTransitions, workflows);
+    const finished = flowTimes(timelines, from, to);
+    const estimates: EstimatePoint[] = finished.flatMap(({ ticket, inProgressTime }) =>
+      ticket.estimate != null
+        ? [{ ticketId: ticket.id, title: ticket.title, estimate: ticket.estimate, days: inProgressTime / DAY_MS }]
+        : []
+    );
+    return {
+      flow: cumulativeFlow(timelines, from, to),
+      throughput: weeklyThroughput(timelines, from, to),
+      summaries: summarizeFlowTimes(finished),
+      estimates,
+    };
+  }, [accessibleTickets, accessibleTransitions, workflows, weeks]);
+
+  if (projectsLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-gray-900">
+        <Loader2 className="w-12 h-12 text-blue-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (project && !hasProjectAccess(project)) {
+    return (
+      <NoAccessPage
+        message={`You don't have access to ${project}. Ask a project owner to add you as a member.`}
+      />
+    );
+  }
+
+  const loading = ticketsLoading || transitionsLoading;
+  const finishedCount = metrics.throughput.reduce((sum, week) => sum + week.count, 0);
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-900">
+      <Header currentProject={project} />
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="max-w-5xl mx-auto p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-white">Analytics</h2>
+            <Link
+              to={project ? projectPath(project) : '/'}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 transition-colors text-white text-sm"
+            >
+              <Columns3 className="w-4 h-4" />
+              Open board
+            </Link>
+          </div>
+
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <ProjectFilter
+              projects={availableProjects}
+              selected={project}
+              onChange={(next) => setSearchParams(next ? { project: next } : {})}
+            />
+            <select
+              value={weeks}
+              onChange={(e) => setWeeks(Number(e.target.value))}
+              className="bg-gray-700 rounded px-3 py-1.5 text-sm text-gray-200"
+              aria-label="Time range"
+            >
+              {RANGES.map((range) => (
+                <option key={range} value={range}>
+                  Last {range} weeks
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {loading ? (
+            <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+          ) : transitionsError ? (
+            <p className="text-sm text-red-400">
+              {transitionsError instanceof Error ? transitionsError.message : 'Failed to load ticket history'}
+            </p>
+          ) : (
+            <>
+              <ChartSection
+                title="Cumulative flow"
+                description="Tickets in each status at the end of every day. Widening bands mean work is piling up."
+                empty={accessibleTickets.length === 0 ? 'No tickets yet' : null}
+              >
+                <CumulativeFlowChart days={metrics.flow} columns={columns} />
+              </ChartSection>
+
+              <ChartSection
+                title="Weekly throughput"
+                description={`Tickets moved into a done status each week, ${finishedCount} in total.`}
+                empty={finishedCount === 0 ? `Nothing was finished in the last ${weeks} weeks` : null}
+              >
+                <ThroughputChart weeks={metrics.throughput} />
+              </ChartSection>
+
+              <ChartSection
+                title="Cycle and lead time"
+                description="Lead time runs from creation to done, cycle time from first starting work to done. 85% of tickets were done within the p85 time."
+                empty={metrics.summaries.length === 0 ? `Nothing was finished in the last ${weeks} weeks` : null}
+              >
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-gray-300">
+                    <thead>
+                      <tr className="text-xs text-gray-400 text-left">
+                        <th className="px-3 py-2 font-medium" rowSpan={2}>
+                          Project
+                        </th>
+                        <th className="px-3 py-2 font-medium" rowSpan={2}>
+                          Finished
+                        </th>
+                        <th className="px-3 pt-2 font-medium" colSpan={3}>
+                          Lead time
+                        </th>
+                        <th className="px-3 pt-2 font-medium" colSpan={3}>
+                          Cycle time
+                        </th>
+                      </tr>
+                      <tr className="text-xs text-gray-500 text-left">
+                        {['p50', 'p85', 'p95', 'p50', 'p85', 'p95'].map((label, i) => (
+                          <th key={i} className="px-3 pb-2 font-normal">
+                            {label}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                      {metrics.summaries.map((summary) => (
+                        <tr key={summary.project}>
+                          <td className="px-3 py-2 text-white">{summary.project}</td>
+                          <td className="px-3 py-2">{summary.finished}</td>
+                          <PercentileCells values={summary.lead} />
+                          <PercentileCells values={summary.cycle} />
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </ChartSection>
+
+              <ChartSection
+                title="Estimate vs. time in progress"
+                description="Each finished ticket's estimate against the days it spent in in-progress statuses."
+                empty={metrics.estimates.length === 0 ? 'No finished tickets with an estimate' : null}
+              >
+                <EstimateScatterChart points={metrics.estimates} />
+              </ChartSection>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
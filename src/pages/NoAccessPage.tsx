@@ -0,0 +1,32 @@
+import { Link } from 'react-router-dom';
+import { Lock } from 'lucide-react';
+import { Header } from '../components/Header';
+
+interface NoAccessPageProps {
+  title?: string;
+  message: string;
+}
+
+/**
+ * Shown for links to things the user can't see, instead of an empty board or modal
+ */
+export function NoAccessPage({ title = 'No Access', message }: NoAccessPageProps) {
+  return (
+    <div className="flex flex-col h-screen bg-gray-900">
+      <Header />
+      <div className="flex-1 flex items-center justify-center">
+        <div className="text-center max-w-md p-8">
+          <Lock className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-white mb-2">{title}</h2>
+          <p className="text-gray-400 mb-6">{message}</p>
+          <Link
+            to="/"
+            className="inline-block px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 transition-colors text-white text-sm"
+          >
+            Back to board
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
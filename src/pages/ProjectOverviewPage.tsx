@@ -0,0 +1,230 @@
+import { useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, Users, Ticket as TicketIcon, Shield, Columns3, Activity } from 'lucide-react';
+import clsx from 'clsx';
+import { useAuth } from '../contexts/AuthContext';
+import { useTickets } from '../hooks/useTickets';
+import { useAllProjects, useProjectActivity } from '../hooks/useProjects';
+import { useProjectWorkflow } from '../hooks/useWorkflows';
+import type { ProjectActivity, ProjectRole } from '../api/projects';
+import type { Workflow } from '../types/workflow';
+import { WORKFLOW_BAR_COLORS } from '../types/workflow';
+import { findWorkflowStatus, unknownStatusColumn } from '../lib/workflow';
+import { analyticsPath, projectPath, sprintsPath, ticketPath } from '../lib/routes';
+import { Header } from '../components/Header';
+import { ProjectMembersModal } from '../components/ProjectMembersModal';
+import { WorkflowSettingsModal } from '../components/WorkflowSettingsModal';
+import { NoAccessPage } from './NoAccessPage';
+
+const ROLE_LABELS: Record<ProjectRole, string> = {
+  admin: 'Admin',
+  owner: 'Owner',
+  member: 'Member',
+  viewer: 'Viewer',
+};
+
+function statusLabel(workflow: Workflow, status?: string) {
+  if (!status) return 'unknown';
+  return findWorkflowStatus(workflow, status)?.label ?? unknownStatusColumn(status).label;
+}
+
+function describeActivity(activity: ProjectActivity, workflow: Workflow) {
+  switch (activity.action) {
+    case 'created':
+      return 'created';
+    case 'moved':
+      return `moved from ${statusLabel(workflow, activity.from)} to ${statusLabel(workflow, activity.to)}`;
+    case 'updated':
+      return activity.fields?.length ? `updated ${activity.fields.join(', ')} on` : 'updated';
+    case 'deleted':
+      return 'deleted';
+    case 'groomed':
+      return 'groomed';
+  }
+}
+
+export function ProjectOverviewPage() {
+  const { projectName = '' } = useParams();
+  const { projects, projectsLoading, role, getProjectRole, hasProjectAccess, canManageProject } = useAuth();
+  const [showMembersModal, setShowMembersModal] = useState(false);
+  const [showWorkflowModal, setShowWorkflowModal] = useState(false);
+  const navigate = useNavigate();
+
+  const { data: allProjects } = useAllProjects(role === 'admin');
+  const { data: tickets = [], isLoading: ticketsLoading } = useTickets({ project: projectName });
+  const { data: activity = [], isLoading: activityLoading, error: activityError } = useProjectActivity(projectName);
+  const workflow = useProjectWorkflow(projectName);
+
+  // Admins may look at projects they aren't a member of
+  const project =
+    projects.find((p) => p.name === projectName) ?? allProjects?.find((p) => p.name === projectName);
+  const projectRole = getProjectRole(projectName);
+
+  const breakdown = useMemo(() => {
+    const columns = [...workflow.statuses];
+    for (const ticket of tickets) {
+      if (!columns.some((c) => c.id === ticket.status)) {
+        columns.push(unknownStatusColumn(ticket.status));
+      }
+    }
+    return columns.map((column) => ({
+      column,
+      count: tickets.filter((t) => t.status === column.id).length,
+    }));
+  }, [workflow, tickets]);
+
+  if (projectsLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-gray-900">
+        <Loader2 className="w-12 h-12 text-blue-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!hasProjectAccess(projectName)) {
+    return (
+      <NoAccessPage
+        message={`You don't have access to ${projectName}. Ask a project owner to add you as a member.`}
+      />
+    );
+  }
+
+  const stats = [
+    { label: 'Members', value: project?.memberCount ?? '—', icon: Users },
+    { label: 'Tickets', value: project?.ticketCount ?? tickets.length, icon: TicketIcon },
+    { label: 'Your role', value: projectRole ? ROLE_LABELS[projectRole] : '—', icon: Shield },
+  ];
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-900">
+      <Header
+        currentProject={projectName}
+        onManageMembers={() => setShowMembersModal(true)}
+        onManageWorkflow={() => setShowWorkflowModal(true)}
+        onOpenAnalytics={() => navigate(analyticsPath(projectName))}
+        onOpenSprints={() => navigate(sprintsPath(projectName))}
+      />
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="max-w-5xl mx-auto p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-white">{projectName}</h2>
+            <Link
+              to={projectPath(projectName)}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 transition-colors text-white text-sm"
+            >
+              <Columns3 className="w-4 h-4" />
+              Open board
+            </Link>
+          </div>
+
+          {/* Stats */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {stats.map(({ label, value, icon: Icon }) => (
+              <div key={label} className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+                <div className="flex items-center gap-2 text-sm text-gray-400 mb-1">
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </div>
+                <div className="text-2xl font-semibold text-white">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Status breakdown */}
+          <section className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-200 mb-3">Tickets by status</h3>
+            {ticketsLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-gray-500" />
+            ) : tickets.length === 0 ? (
+              <p className="text-sm text-gray-500">No tickets yet</p>
+            ) : (
+              <>
+                <div className="flex h-3 rounded-full overflow-hidden bg-gray-700 mb-3">
+                  {breakdown
+                    .filter(({ count }) => count > 0)
+                    .map(({ column, count }) => (
+                      <div
+                        key={column.id}
+                        className={WORKFLOW_BAR_COLORS[column.color] ?? WORKFLOW_BAR_COLORS.gray}
+                        style={{ width: `${(count / tickets.length) * 100}%` }}
+                        title={`${column.label}: ${count}`}
+                      />
+                    ))}
+                </div>
+                <ul className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+                  {breakdown.map(({ column, count }) => (
+                    <li key={column.id} className="flex items-center gap-2 text-gray-300">
+                      <span
+                        className={clsx(
+                          'w-2.5 h-2.5 rounded-full',
+                          WORKFLOW_BAR_COLORS[column.color] ?? WORKFLOW_BAR_COLORS.gray
+                        )}
+                      />
+                      {column.label}
+                      <span className="text-gray-500">{count}</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </section>
+
+          {/* Recent activity */}
+          <section className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-200 mb-3">
+              <Activity className="w-4 h-4" />
+              Recent activity
+            </h3>
+            {activityLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-gray-500" />
+            ) : activityError ? (
+              <p className="text-sm text-red-400">
+                {activityError instanceof Error ? activityError.message : 'Failed to load activity'}
+              </p>
+            ) : activity.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing has happened here yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-700">
+                {activity.map((item) => (
+                  <li key={item.id} className="flex items-baseline justify-between gap-4 py-2 text-sm">
+                    <p className="text-gray-300 min-w-0">
+                      <span className="text-white">{item.actor ?? 'Mission Control'}</span>{' '}
+                      {describeActivity(item, workflow)}{' '}
+                      {item.action === 'deleted' ? (
+                        <span className="font-mono text-gray-400">{item.ticketId}</span>
+                      ) : (
+                        <Link
+                          to={ticketPath(item.ticketId, projectName)}
+                          className="font-mono text-blue-400 hover:underline"
+                        >
+                          {item.ticketId}
+                        </Link>
+                      )}
+                      {item.ticketTitle && <span className="text-gray-500"> {item.ticketTitle}</span>}
+                    </p>
+                    <time
+                      dateTime={item.createdAt}
+                      className="text-xs text-gray-500 whitespace-nowrap"
+                    >
+                      {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}
+                    </time>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+
+      {showMembersModal && canManageProject(projectName) && (
+        <ProjectMembersModal projectName={projectName} onClose={() => setShowMembersModal(false)} />
+      )}
+
+      {showWorkflowModal && (
+        <WorkflowSettingsModal projectName={projectName} onClose={() => setShowWorkflowModal(false)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,411 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { DndContext, PointerSensor, useSensor, useSensors } from '@dnd-kit/core';
+import type { DragEndEvent } from '@dnd-kit/core';
+import { useQueryClient } from '@tanstack/react-query';
+import { addDays, parseISO } from 'date-fns';
+import { Loader2, Columns3, Plus, Pencil, Trash2, Target } from 'lucide-react';
+import clsx from 'clsx';
+import type { Ticket } from '../types/ticket';
+import type { Sprint, SprintInput, SprintState } from '../types/sprint';
+import { useAuth } from '../contexts/AuthContext';
+import { useTickets, useTicketTransitions, useUpdateTicket } from '../hooks/useTickets';
+import { useProjectWorkflow } from '../hooks/useWorkflows';
+import { useCreateSprint, useDeleteSprint, useSprintScope, useSprints, useUpdateSprint } from '../hooks/useSprints';
+import { buildTimelines } from '../lib/analytics';
+import { burndown, currentSprint, formatSprintDates, sprintPoints, sprintState } from '../lib/sprints';
+import { findWorkflowStatus } from '../lib/workflow';
+import { projectOverviewPath, projectPath } from '../lib/routes';
+import { Header } from '../components/Header';
+import { SprintForm } from '../components/SprintForm';
+import { SprintTicketList } from '../components/SprintTicketList';
+import { BurndownChart } from '../components/AnalyticsCharts';
+import { NoAccessPage } from './NoAccessPage';
+
+const STATE_STYLES: Record<SprintState, string> = {
+  planned: 'bg-gray-700 text-gray-300',
+  active: 'bg-green-500/20 text-green-400',
+  closed: 'bg-gray-700/50 text-gray-500',
+};
+
+const STATE_LABELS: Record<SprintState, string> = {
+  planned: 'Planned',
+  active: 'Active',
+  closed: 'Closed',
+};
+
+// Droppable ids of the two lists
+const BACKLOG = 'backlog';
+const SPRINT = 'sprint';
+
+/**
+ * Plan a project's sprints: commit backlog tickets by dragging them into a
+ * sprint, keep an eye on capacity and follow the burndown
+ */
+export function SprintPlanningPage() {
+  const { projectName = '' } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { projectsLoading, hasProjectAccess, canEdit, canEditProject, canManageProject } = useAuth();
+  const [formMode, setFormMode] = useState<'create' | 'edit' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: sprints = [], isLoading: sprintsLoading } = useSprints(projectName);
+  const { data: tickets = [], isLoading: ticketsLoading } = useTickets({ project: projectName });
+  const { data: transitions = [] } = useTicketTransitions(projectName);
+  const workflow = useProjectWorkflow(projectName);
+  const updateTicket = useUpdateTicket();
+  const createSprint = useCreateSprint(projectName);
+  const updateSprint = useUpdateSprint();
+  const deleteSprint = useDeleteSprint();
+
+  const canManage = canManageProject(projectName);
+  const canCommit = canEdit && canEditProject(projectName);
+
+  const sortedSprints = useMemo(
+    () => [...sprints].sort((a, b) => a.startDate.localeCompare(b.startDate)),
+    [sprints]
+  );
+
+  // The running sprint by default, then the next one planned, then the latest
+  const selected =
+    sortedSprints.find((s) => s.id === searchParams.get('sprint')) ??
+    currentSprint(sortedSprints) ??
+    sortedSprints.find((s) => sprintState(s) === 'planned') ??
+    sortedSprints[sortedSprints.length - 1];
+  const state = selected ? sprintState(selected) : null;
+  const { data: scope = [] } = useSprintScope(selected?.id);
+
+  const isDone = (ticket: Ticket) => findWorkflowStatus(workflow, ticket.status)?.category === 'done';
+  const sprintsById = new Map(sprints.map((s) => [s.id, s]));
+  // Committed to a sprint that hasn't finished yet
+  const isCommitted = (ticket: Ticket) => {
+    const sprint = ticket.sprintId ? sprintsById.get(ticket.sprintId) : undefined;
+    return !!sprint && sprintState(sprint) !== 'closed';
+  };
+
+  const sprintTickets = useMemo(
+    () => (selected ? tickets.filter((t) => t.sprintId === selected.id) : []),
+    [tickets, selected]
+  );
+  const backlog = tickets.filter((t) => !isDone(t) && !isCommitted(t));
+  const committed = sprintPoints(sprintTickets);
+  const finished = sprintPoints(sprintTickets.filter(isDone));
+  const unestimated = sprintTickets.filter((t) => t.estimate == null).length;
+  const capacity = selected?.capacity ?? null;
+
+  // What the last finished sprint got done, as a starting point for the next one
+  const lastClosed = [...sortedSprints].reverse().find((s) => sprintState(s) === 'closed');
+  const lastVelocity = lastClosed
+    ? sprintPoints(tickets.filter((t) => t.sprintId === lastClosed.id && isDone(t)))
+    : undefined;
+
+  // Ticket events keep the list live; refetch the histories when a sprint ticket
+  // moves, joins or leaves so the burndown has the exact times
+  const statusKey = sprintTickets.map((t) => `${t.id}:${t.status}`).join(',');
+  const lastStatusKey = useRef(statusKey);
+  useEffect(() => {
+    if (lastStatusKey.current === statusKey) return;
+    lastStatusKey.current = statusKey;
+    queryClient.invalidateQueries({ queryKey: ['ticketTransitions', projectName] });
+    queryClient.invalidateQueries({ queryKey: ['sprintScope'] });
+  }, [statusKey, projectName, queryClient]);
+
+  const burndownDays = useMemo(() => {
+    if (!selected || sprintState(selected) === 'planned') return [];
+    // Tickets taken out still count on the days they were in
+    const ids = new Set([...sprintTickets.map((t) => t.id), ...scope.map((c) => c.ticketId)]);
+    const timelines = buildTimelines(
+      tickets.filter((t) => ids.has(t.id)),
+      transitions.filter((t) => ids.has(t.ticketId)),
+      { [projectName]: workflow }
+    );
+    return burndown(selected, timelines, scope);
+  }, [selected, sprintTickets, tickets, scope, transitions, projectName, workflow]);
+
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 8 } }));
+
+  if (projectsLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-gray-900">
+        <Loader2 className="w-12 h-12 text-blue-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!hasProjectAccess(projectName)) {
+    return (
+      <NoAccessPage
+        message={`You don't have access to ${projectName}. Ask a project owner to add you as a member.`}
+      />
+    );
+  }
+
+  const selectSprint = (sprint: Sprint) => {
+    setFormMode(null);
+    setSearchParams({ sprint: sprint.id });
+  };
+
+  const setSprint = (ticket: Ticket, sprintId: string | null) => {
+    setError(null);
+    updateTicket
+      .mutateAsync({ id: ticket.id, update: { sprintId } })
+      .then(() => {
+        // The burndown needs the server's record of when it joined or left
+        for (const id of [sprintId, ticket.sprintId]) {
+          if (id) queryClient.invalidateQueries({ queryKey: ['sprintScope', id] });
+        }
+      })
+      .catch((err: Error) => setError(`Couldn't change ${ticket.id}: ${err.message}`));
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    const ticket = tickets.find((t) => t.id === active.id);
+    if (!ticket || !selected || !over) return;
+
+    if (over.id === SPRINT && ticket.sprintId !== selected.id) {
+      const total = committed + (ticket.estimate ?? 0);
+      if (
+        capacity !== null &&
+        total > capacity &&
+        !window.confirm(
+          `Committing ${ticket.id} puts ${selected.name} over its capacity (${total} of ${capacity} points). Commit it anyway?`
+        )
+      ) {
+        return;
+      }
+      setSprint(ticket, selected.id);
+    } else if (over.id === BACKLOG && ticket.sprintId === selected.id) {
+      setSprint(ticket, null);
+    }
+  };
+
+  const handleSaveSprint = (input: SprintInput) => {
+    if (formMode === 'edit' && selected) {
+      updateSprint.mutate({ id: selected.id, sprint: input }, { onSuccess: () => setFormMode(null) });
+    } else {
+      createSprint.mutate(input, { onSuccess: (sprint) => selectSprint(sprint) });
+    }
+  };
+
+  const handleDeleteSprint = () => {
+    if (!selected) return;
+    if (!window.confirm(`Delete ${selected.name}? Its ${sprintTickets.length} tickets go back to the backlog.`)) return;
+    deleteSprint.mutate(selected, {
+      onSuccess: () => setSearchParams({}),
+      onError: (err) => setError(err.message),
+    });
+  };
+
+  // A new sprint starts the day after the last one ends
+  const last = sortedSprints[sortedSprints.length - 1];
+  const nextStart = last && sprintState(last) !== 'closed' ? addDays(parseISO(last.endDate), 1) : new Date();
+
+  const loading = sprintsLoading || ticketsLoading;
+  const overCapacity = capacity !== null && committed > capacity;
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-900">
+      <Header currentProject={projectName} onOpenOverview={() => navigate(projectOverviewPath(projectName))} />
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="max-w-6xl mx-auto p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-white">Sprints</h2>
+              <p className="text-sm text-gray-400">{projectName}</p>
+            </div>
+            <Link
+              to={projectPath(projectName)}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 transition-colors text-white text-sm"
+            >
+              <Columns3 className="w-4 h-4" />
+              Open board
+            </Link>
+          </div>
+
+          {loading ? (
+            <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+          ) : (
+            <>
+              {/* Sprint picker */}
+              <div className="flex flex-wrap items-center gap-2">
+                {sortedSprints.map((sprint) => {
+                  const sprintStateNow = sprintState(sprint);
+                  return (
+                    <button
+                      key={sprint.id}
+                      onClick={() => selectSprint(sprint)}
+                      className={clsx(
+                        'flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors',
+                        sprint.id === selected?.id
+                          ? 'bg-gray-600 text-white'
+                          : 'bg-gray-700/50 text-gray-400 hover:bg-gray-700 hover:text-gray-200'
+                      )}
+                    >
+                      {sprint.name}
+                      <span className={clsx('text-xs px-1.5 rounded-full', STATE_STYLES[sprintStateNow])}>
+                        {STATE_LABELS[sprintStateNow]}
+                      </span>
+                    </button>
+                  );
+                })}
+                {canManage && (
+                  <button
+                    onClick={() => setFormMode('create')}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-gray-400 hover:bg-gray-700 hover:text-gray-200"
+                  >
+                    <Plus className="w-4 h-4" />
+                    New sprint
+                  </button>
+                )}
+              </div>
+
+              {formMode && (
+                <SprintForm
+                  key={formMode === 'edit' ? selected?.id : 'new'}
+                  sprint={formMode === 'edit' ? selected : undefined}
+                  suggestedCapacity={lastVelocity}
+                  defaultStart={nextStart}
+                  isPending={createSprint.isPending || updateSprint.isPending}
+                  error={formMode === 'edit' ? updateSprint.error : createSprint.error}
+                  onSubmit={handleSaveSprint}
+                  onCancel={() => setFormMode(null)}
+                />
+              )}
+
+              {error && (
+                <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-400 text-sm">
+                  {error}
+                </div>
+              )}
+
+              {!selected ? (
+                <p className="text-sm text-gray-500">
+                  No sprints yet.{canManage ? ' Create one to start planning.' : ' A project owner can create one.'}
+                </p>
+              ) : (
+                <>
+                  {/* Selected sprint */}
+                  <section className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3">
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div>
+                        <h3 className="text-lg font-semibold text-white">{selected.name}</h3>
+                        <p className="text-sm text-gray-400">
+                          {formatSprintDates(selected)} · {STATE_LABELS[sprintState(selected)]}
+                        </p>
+                        {selected.goal && (
+                          <p className="flex items-center gap-1.5 text-sm text-gray-300 mt-1">
+                            <Target className="w-4 h-4 text-gray-500" />
+                            {selected.goal}
+                          </p>
+                        )}
+                      </div>
+                      {canManage && (
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => setFormMode('edit')}
+                            className="p-2 rounded-lg hover:bg-gray-700 text-gray-400"
+                            title="Edit sprint"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={handleDeleteSprint}
+                            className="p-2 rounded-lg hover:bg-red-500/20 text-gray-400 hover:text-red-400"
+                            title="Delete sprint"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Capacity */}
+                    <div>
+                      <div className="flex justify-between text-xs text-gray-400 mb-1">
+                        <span>
+                          {committed} points committed
+                          {capacity !== null && ` of ${capacity}`}, {finished} done
+                        </span>
+                        {unestimated > 0 && (
+                          <span className="text-yellow-500">
+                            {unestimated} ticket{unestimated !== 1 ? 's' : ''} without an estimate
+                          </span>
+                        )}
+                      </div>
+                      {capacity !== null && (
+                        <div className="relative h-2 bg-gray-700 rounded-full overflow-hidden">
+                          <div
+                            className={clsx('h-full', overCapacity ? 'bg-red-500' : 'bg-blue-500')}
+                            style={{ width: `${Math.min(100, capacity > 0 ? (committed / capacity) * 100 : 100)}%` }}
+                          />
+                          <div
+                            className="absolute inset-y-0 left-0 bg-green-500"
+                            style={{ width: `${Math.min(100, capacity > 0 ? (finished / capacity) * 100 : 0)}%` }}
+                          />
+                        </div>
+                      )}
+                      {overCapacity && (
+                        <p className="text-xs text-red-400 mt-1">
+                          {committed - capacity} points over capacity
+                        </p>
+                      )}
+                    </div>
+                  </section>
+
+                  {/* Commitment */}
+                  <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <section>
+                        <h3 className="text-sm font-semibold text-gray-200 mb-2">
+                          Backlog <span className="font-normal text-gray-500">{sprintPoints(backlog)} points</span>
+                        </h3>
+                        <SprintTicketList
+                          id={BACKLOG}
+                          tickets={backlog}
+                          canDrag={canCommit && state !== 'closed'}
+                          accepts={state !== 'closed'}
+                          empty="Nothing left to plan"
+                          noteFor={(t) => (t.sprintId ? `from ${sprintsById.get(t.sprintId)?.name ?? 'a deleted sprint'}` : undefined)}
+                        />
+                      </section>
+                      <section>
+                        <h3 className="text-sm font-semibold text-gray-200 mb-2">
+                          {selected.name} <span className="font-normal text-gray-500">{committed} points</span>
+                        </h3>
+                        <SprintTicketList
+                          id={SPRINT}
+                          tickets={sprintTickets}
+                          canDrag={canCommit && state !== 'closed'}
+                          accepts={state !== 'closed'}
+                          empty={state === 'closed' ? 'Nothing was committed' : 'Drag backlog tickets here to commit them'}
+                        />
+                      </section>
+                    </div>
+                  </DndContext>
+
+                  {/* Burndown */}
+                  {state !== 'planned' && (
+                    <section className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+                      <h3 className="text-sm font-semibold text-gray-200">Burndown</h3>
+                      <p className="text-xs text-gray-400 mb-3">
+                        Points left in the sprint at the end of each day, against an even pace to zero.
+                      </p>
+                      {committed === 0 ? (
+                        <p className="text-sm text-gray-500">No estimated tickets in this sprint</p>
+                      ) : (
+                        <BurndownChart days={burndownDays} />
+                      )}
+                    </section>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
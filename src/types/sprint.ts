@@ -0,0 +1,27 @@
+// A time-boxed iteration of one project. Tickets join it through `Ticket.sprintId`.
+export interface Sprint {
+  id: string;
+  project: string;
+  name: string;
+  // Calendar days (yyyy-MM-dd), both included
+  startDate: string;
+  endDate: string;
+  // Points the team expects to finish; unset means no limit is shown.
+  // null clears either field on the server.
+  capacity?: number | null;
+  goal?: string | null;
+}
+
+// A ticket joining or leaving a sprint, as recorded by the server
+export interface SprintScopeChange {
+  ticketId: string;
+  sprintId: string;
+  // False when the ticket was taken out
+  added: boolean;
+  at: string;
+}
+
+export type SprintInput = Omit<Sprint, 'id' | 'project'>;
+
+// Planned sprints haven't started yet; closed ones are past their end date
+export type SprintState = 'planned' | 'active' | 'closed';
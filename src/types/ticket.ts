@@ -1,4 +1,7 @@
-export type TicketStatus = 'backlog' | 'todo' | 'in-progress' | 'done';
+export type DefaultTicketStatus = 'backlog' | 'todo' | 'in-progress' | 'done';
+
+// Projects can define their own workflow statuses (see types/workflow.ts)
+export type TicketStatus = DefaultTicketStatus | (string & {});
 
 export type Priority = 'low' | 'medium' | 'high';
 
@@ -13,6 +16,28 @@ export interface GroomingInfo {
   lastError?: string;
 }
 
+// One run of the grooming agent, newest last (see fetchGroomingAttempts)
+export interface GroomingAttempt {
+  attempt: number;
+  status: GroomingStatus;
+  startedAt: string;
+  finishedAt?: string;
+  sessionKey?: string;
+  error?: string;
+  // Who started it, null for automatic grooming
+  triggeredBy?: string | null;
+}
+
+// A ticket entering a status (see fetchTicketTransitions)
+export interface TicketTransition {
+  ticketId: string;
+  project: string;
+  // null when the ticket was created in `to`
+  from: TicketStatus | null;
+  to: TicketStatus;
+  at: string;
+}
+
 export interface Ticket {
   id: string;
   title: string;
@@ -26,6 +51,10 @@ export interface Ticket {
   body: string;
   grooming?: GroomingInfo;
   qualityScore?: number;
+  // Manual position within a lane, lower sorts first (see lib/rank.ts)
+  rank?: number;
+  // The sprint it's committed to, if any (see types/sprint.ts)
+  sprintId?: string | null;
 }
 
 export interface TicketUpdate {
@@ -33,14 +62,16 @@ export interface TicketUpdate {
   status?: TicketStatus;
   priority?: Priority;
   project?: string;
-  assignee?: string;
-  estimate?: number;
+  // null clears the field on the server
+  assignee?: string | null;
+  estimate?: number | null;
   body?: string;
+  sprintId?: string | null;
 }
 
-export const STATUS_ORDER: TicketStatus[] = ['backlog', 'todo', 'in-progress', 'done'];
+export const STATUS_ORDER: DefaultTicketStatus[] = ['backlog', 'todo', 'in-progress', 'done'];
 
-export const STATUS_LABELS: Record<TicketStatus, string> = {
+export const STATUS_LABELS: Record<DefaultTicketStatus, string> = {
   'backlog': 'Backlog',
   'todo': 'To Do',
   'in-progress': 'In Progress',
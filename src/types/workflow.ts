@@ -0,0 +1,86 @@
+import type { TicketStatus } from './ticket';
+import { STATUS_ORDER, STATUS_LABELS } from './ticket';
+
+export type WorkflowColor = 'gray' | 'blue' | 'yellow' | 'green' | 'purple' | 'red' | 'orange' | 'cyan';
+
+export type WorkflowCategory = 'todo' | 'in-progress' | 'done';
+
+// What a ticket needs before it can move into a status
+export interface StatusEntryRules {
+  // Grooming finished, by the agent or by hand
+  groomed?: boolean;
+  minQualityScore?: number;
+  assignee?: boolean;
+  estimate?: boolean;
+}
+
+export interface WorkflowStatus {
+  id: TicketStatus;
+  label: string;
+  color: WorkflowColor;
+  category: WorkflowCategory;
+  // Max tickets of this project allowed in the status at once
+  wipLimit?: number;
+  // Project owners can override these when moving a ticket
+  entryRules?: StatusEntryRules;
+}
+
+// Whether exceeding a WIP limit asks for confirmation or is refused
+export type WipPolicy = 'warn' | 'block';
+
+export interface Workflow {
+  project: string;
+  statuses: WorkflowStatus[];
+  wipPolicy?: WipPolicy;
+}
+
+export const WORKFLOW_COLORS: WorkflowColor[] = ['gray', 'blue', 'yellow', 'green', 'purple', 'red', 'orange', 'cyan'];
+
+// Full class names so Tailwind picks them up
+export const WORKFLOW_LANE_COLORS: Record<WorkflowColor, string> = {
+  'gray': 'border-t-gray-500',
+  'blue': 'border-t-blue-500',
+  'yellow': 'border-t-yellow-500',
+  'green': 'border-t-green-500',
+  'purple': 'border-t-purple-500',
+  'red': 'border-t-red-500',
+  'orange': 'border-t-orange-500',
+  'cyan': 'border-t-cyan-500',
+};
+
+export const WORKFLOW_BAR_COLORS: Record<WorkflowColor, string> = {
+  'gray': 'bg-gray-500',
+  'blue': 'bg-blue-500',
+  'yellow': 'bg-yellow-500',
+  'green': 'bg-green-500',
+  'purple': 'bg-purple-500',
+  'red': 'bg-red-500',
+  'orange': 'bg-orange-500',
+  'cyan': 'bg-cyan-500',
+};
+
+// For SVG charts
+export const WORKFLOW_FILL_COLORS: Record<WorkflowColor, string> = {
+  'gray': 'fill-gray-500',
+  'blue': 'fill-blue-500',
+  'yellow': 'fill-yellow-500',
+  'green': 'fill-green-500',
+  'purple': 'fill-purple-500',
+  'red': 'fill-red-500',
+  'orange': 'fill-orange-500',
+  'cyan': 'fill-cyan-500',
+};
+
+const DEFAULT_STATUS_STYLE: Record<(typeof STATUS_ORDER)[number], Pick<WorkflowStatus, 'color' | 'category'>> = {
+  'backlog': { color: 'gray', category: 'todo' },
+  'todo': { color: 'blue', category: 'todo' },
+  'in-progress': { color: 'yellow', category: 'in-progress' },
+  'done': { color: 'green', category: 'done' },
+};
+
+// Used for projects that haven't defined their own workflow
+export const DEFAULT_WORKFLOW_STATUSES: WorkflowStatus[] = STATUS_ORDER.map((id) => ({
+  id,
+  label: STATUS_LABELS[id],
+  ...DEFAULT_STATUS_STYLE[id],
+}));
@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_API_URL: string
   readonly VITE_WS_URL: string
+  readonly VITE_GROOMING_SESSION_URL?: string
 }
 
 interface ImportMeta {